@@ -1,11 +1,26 @@
-import React, { useState, useMemo, useEffect } from 'react';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
 import { AnimatePresence, motion } from 'framer-motion';
-import { ViewState, FoodEntry } from './types';
+import { ViewState, FoodEntry, Venue } from './types';
 import { BottomNav } from './components/BottomNav';
+import { UndoToast, ToastMessage } from './components/UndoToast';
 import { HomeView } from './views/HomeView';
-import { DiscoverView } from './views/DiscoverView';
+import { SearchView } from './views/SearchView';
+import { ProfileView } from './views/ProfileView';
 import { AddEntryView } from './views/AddEntryView';
 import { DetailView } from './views/DetailView';
+import { NotFoundView } from './views/NotFoundView';
+import { TrashView } from './views/TrashView';
+import { MapView } from './views/MapView';
+import { VenueView } from './views/VenueView';
+import { loadEntries, loadTrash, saveJournal, JournalWrite, getPreference, setPreference } from './services/storage';
+import { FeedFilter, FeedSort, EMPTY_FILTER, DEFAULT_SORT } from './services/feed';
+import { BackupPreferences } from './services/backup';
+import { HistoryChange, HistoryState, JournalSnapshot, EMPTY_HISTORY, recordCommand, undo, redo, historyImageRefs } from './services/history';
+import { DEFAULT_RETENTION_DAYS, moveToTrash, restoreFromTrash, purgeExpired } from './services/trash';
+import { Route, HOME_ROUTE, initRouter, navigate, goBack, onRouteChange, saveHomeScroll, readHomeScroll } from './services/router';
+import { addVenues, isVenue, linkVenues, mergeVenues } from './services/venues';
+import { DEFAULT_RATING_WEIGHTS, RatingWeights, rescoreEntries } from './services/ratings';
+import { TemperatureUnit } from './utils/weatherCodes';
 
 // Initial Mock Data with multiple images structure
 const INITIAL_ENTRIES: FoodEntry[] = [
@@ -13,11 +28,15 @@ const INITIAL_ENTRIES: FoodEntry[] = [
     id: '1',
     title: '宇治抹茶舒芙蕾',
     location: '京都茶寮',
-    date: '10月12日',
+    place: { name: '京都茶寮', city: '京都', lng: 135.7727, lat: 34.9986 },
+    eatenAt: '2026-10-12T01:30:00.000Z',
+    createdAt: '2026-10-12T01:30:00.000Z',
+    updatedAt: '2026-10-12T01:30:00.000Z',
     images: ['https://picsum.photos/id/431/800/1000', 'https://picsum.photos/id/432/800/1000'],
     coverImageIndex: 0,
     tags: ['早餐', '漂亮饭'],
     rating: 4.8,
+    ratings: { taste: 5, ambience: 4.5, service: 4, value: 5, presentation: 5 },
     description: '如云朵般蓬松的口感，散发着浓郁的抹茶香气。',
     weather: { temperature: 22, condition: '晴朗', code: 0, locationName: '京都' }
   },
@@ -25,31 +44,44 @@ const INITIAL_ENTRIES: FoodEntry[] = [
     id: '2',
     title: '手工酸种吐司',
     location: '晨间面包房',
-    date: '10月10日',
+    place: { name: '晨间面包房', city: '上海', lng: 121.4451, lat: 31.2165 },
+    eatenAt: '2026-10-10T00:15:00.000Z',
+    createdAt: '2026-10-10T00:15:00.000Z',
+    updatedAt: '2026-10-10T00:15:00.000Z',
     images: ['https://picsum.photos/id/1080/800/1000'],
     coverImageIndex: 0,
     tags: ['早餐', '大吃特吃'],
     rating: 4.5,
     description: '本地采购的牛油果配上水波蛋和少许辣椒碎。',
-    weather: { temperature: 18, condition: '多云', code: 1, locationName: '上海' }
+    weather: { temperature: 18, condition: '多云', code: 2, locationName: '上海' }
   },
   {
     id: '3',
     title: '主厨特选寿司',
     location: '禅 · 寿司',
-    date: '10月08日',
+    place: { name: '禅 · 寿司', city: '东京', lng: 139.7645, lat: 35.6702 },
+    eatenAt: '2026-10-08T11:00:00.000Z',
+    createdAt: '2026-10-08T11:00:00.000Z',
+    updatedAt: '2026-10-08T11:00:00.000Z',
     images: ['https://picsum.photos/id/225/800/1000', 'https://picsum.photos/id/226/800/1000', 'https://picsum.photos/id/227/800/1000'],
     coverImageIndex: 0,
     tags: ['大吃特吃'],
     rating: 5.0,
     description: '一场十二道时令鱼生的味觉之旅。',
+    dishes: [
+      { id: 'd-seed-1', name: '金目鲷', rating: 5, note: '炙烤后油脂香气十足', imageIndices: [0] },
+      { id: 'd-seed-2', name: '海胆军舰', rating: 5, imageIndices: [1] },
+      { id: 'd-seed-3', name: '玉子烧', rating: 4, note: '偏甜', imageIndices: [2] }
+    ],
     weather: { temperature: 15, condition: '下雨', code: 61, locationName: '东京' }
   },
   {
       id: '4',
       title: '深夜关东煮',
       location: '便利店',
-      date: '10月05日',
+      eatenAt: '2026-10-05T14:40:00.000Z',
+      createdAt: '2026-10-05T14:40:00.000Z',
+      updatedAt: '2026-10-05T14:40:00.000Z',
       images: ['https://picsum.photos/id/1060/800/1000'],
       coverImageIndex: 0,
       tags: ['超市', '小吃小喝'],
@@ -61,74 +93,281 @@ const INITIAL_ENTRIES: FoodEntry[] = [
 
 const DEFAULT_TAGS = ['早餐', '漂亮饭', '大吃特吃', '小吃小喝', '超市'];
 
-const ProfileView = () => (
-  <motion.div 
-    initial={{ opacity: 0, y: 20 }}
-    animate={{ opacity: 1, y: 0 }}
-    exit={{ opacity: 0, y: -20 }}
-    className="flex flex-col items-center justify-center h-screen text-stone-400 gap-4"
-  >
-    <div className="w-20 h-20 rounded-full bg-stone-200 flex items-center justify-center shadow-inner">
-        <span className="serif text-2xl text-stone-500">我</span>
-    </div>
-    <span className="text-xs font-medium tracking-[0.2em] uppercase">个人中心 · 暂未开放</span>
-  </motion.div>
-);
-
 const App: React.FC = () => {
-  const [currentView, setCurrentView] = useState<ViewState>(ViewState.HOME);
-  const [selectedEntryId, setSelectedEntryId] = useState<string | null>(null);
-  const [homeScrollPos, setHomeScrollPos] = useState(0);
+  // Routing - the URL hash is the source of truth for the current view
+  const [route, setRoute] = useState<Route>(initRouter);
+  const [homeScrollPos, setHomeScrollPos] = useState(() => readHomeScroll() ?? 0);
+  const currentView = route.view;
+  const selectedEntryId = route.entryId ?? null;
+  // Last search, so switching tabs returns to it
+  const [searchQuery, setSearchQuery] = useState(route.query || '');
+  
+  const [isLoaded, setIsLoaded] = useState(false);
   
   // Persistent Layout Mode
-  const [layoutMode, setLayoutMode] = useState<'grid' | 'list'>(() => {
-    return (localStorage.getItem('gourmet_layout_mode') as 'grid' | 'list') || 'grid';
-  });
-
-  // Entries State - Safer Loading
-  const [entries, setEntries] = useState<FoodEntry[]>(() => {
-    try {
-      const saved = localStorage.getItem('gourmet_journal_entries');
-      if (saved) {
-          const parsed = JSON.parse(saved);
-          if (Array.isArray(parsed)) {
-              return parsed;
-          }
-      }
-      return INITIAL_ENTRIES;
-    } catch (e) {
-      console.error("Failed to load entries:", e);
-      return INITIAL_ENTRIES;
-    }
-  });
-
-  // Tags State - Safer Loading
-  const [tags, setTags] = useState<string[]>(() => {
-      try {
-          const saved = localStorage.getItem('gourmet_tags');
-          if (saved) {
-              const parsed = JSON.parse(saved);
-              if (Array.isArray(parsed)) return parsed;
-          }
-          return DEFAULT_TAGS; 
-      } catch(e) {
-          return DEFAULT_TAGS;
-      }
-  });
+  const [layoutMode, setLayoutMode] = useState<'grid' | 'list'>('grid');
+  const [feedFilter, setFeedFilter] = useState<FeedFilter>(EMPTY_FILTER);
+  const [feedSort, setFeedSort] = useState<FeedSort>(DEFAULT_SORT);
+
+  // Entries & Tags - loaded asynchronously from IndexedDB
+  const [entries, setEntries] = useState<FoodEntry[]>([]);
+  const [tags, setTags] = useState<string[]>(DEFAULT_TAGS);
+  const [trash, setTrash] = useState<FoodEntry[]>([]);
+  const [venues, setVenues] = useState<Venue[]>([]);
+  const [retentionDays, setRetentionDays] = useState(DEFAULT_RETENTION_DAYS);
+  const [temperatureUnit, setTemperatureUnit] = useState<TemperatureUnit>('C');
+  const [ratingWeights, setRatingWeights] = useState<RatingWeights>(DEFAULT_RATING_WEIGHTS);
+
+  // Undo/redo - refs hold the latest values so several mutations in one event see each other
+  const entriesRef = useRef(entries);
+  const tagsRef = useRef(tags);
+  const trashRef = useRef(trash);
+  const venuesRef = useRef(venues);
+  const ratingWeightsRef = useRef(ratingWeights);
+  entriesRef.current = entries;
+  tagsRef.current = tags;
+  trashRef.current = trash;
+  venuesRef.current = venues;
+  ratingWeightsRef.current = ratingWeights;
+  const historyRef = useRef<HistoryState>(EMPTY_HISTORY);
+  const isBatchingRef = useRef(false);
+  const [toast, setToast] = useState<ToastMessage | null>(null);
+
+  useEffect(() => {
+      let cancelled = false;
+      Promise.all([
+          loadEntries(),
+          getPreference('gourmet_tags'),
+          getPreference('gourmet_layout_mode'),
+          getPreference('gourmet_feed_filter'),
+          getPreference('gourmet_feed_sort'),
+          loadTrash(),
+          getPreference('trash_retention_days'),
+          getPreference('temperature_unit'),
+          getPreference('venues'),
+          getPreference('rating_weights')
+      ])
+        .then(([savedEntries, savedTags, savedLayout, savedFilter, savedSort, savedTrash, savedRetention, savedUnit, savedVenues, savedWeights]) => {
+            if (cancelled) return;
+            // Entries saved before venues existed (or whose venue is gone) get linked on load
+            const loaded = savedEntries ?? INITIAL_ENTRIES;
+            const linked = linkVenues(loaded, Array.isArray(savedVenues) ? savedVenues.filter(isVenue) : []);
+            setEntries(linked.entries);
+            setVenues(linked.venues);
+            if (savedEntries && linked.entries !== loaded) saveJournal({ entries: linked.entries }).catch(e => console.error("Failed to link venues:", e));
+            // Purge whatever outlived the retention period since the last visit
+            const retention = savedRetention ?? DEFAULT_RETENTION_DAYS;
+            const { kept, purged } = purgeExpired(savedTrash, retention);
+            setTrash(kept);
+            setRetentionDays(retention);
+            if (purged.length > 0) saveJournal({ trash: kept }).catch(e => console.error("Failed to purge trash:", e));
+            if (Array.isArray(savedTags)) setTags(savedTags);
+            if (savedLayout === 'grid' || savedLayout === 'list') setLayoutMode(savedLayout);
+            if (savedFilter) setFeedFilter({ ...EMPTY_FILTER, ...savedFilter });
+            if (savedSort) setFeedSort({ ...DEFAULT_SORT, ...savedSort });
+            if (savedUnit === 'C' || savedUnit === 'F') setTemperatureUnit(savedUnit);
+            if (savedWeights) setRatingWeights({ ...DEFAULT_RATING_WEIGHTS, ...savedWeights });
+        })
+        .catch(e => {
+            console.error("Failed to load entries:", e);
+            if (!cancelled) setEntries(INITIAL_ENTRIES);
+        })
+        .finally(() => {
+            if (!cancelled) setIsLoaded(true);
+        });
+      return () => { cancelled = true; };
+  }, []);
+
+  useEffect(() => onRouteChange(next => {
+      setRoute(next);
+      const savedScroll = readHomeScroll();
+      if (next.view === ViewState.HOME && savedScroll !== undefined) setHomeScrollPos(savedScroll);
+  }), []);
+
+  useEffect(() => {
+      if (route.view === ViewState.SEARCH) setSearchQuery(route.query || '');
+  }, [route]);
+
+  const go = (next: Route, options?: { replace?: boolean }) => {
+      // Leaving the feed: keep its scroll offset on the history entry for the way back
+      if (currentView === ViewState.HOME && next.view !== ViewState.HOME && !options?.replace) saveHomeScroll(homeScrollPos);
+      navigate(next, options);
+      setRoute(next);
+  };
+
+  // Persist Tags (only once loaded, so defaults never overwrite saved tags)
+  useEffect(() => {
+      if (!isLoaded) return;
+      setPreference('gourmet_tags', tags).catch(e => console.error("Failed to save tags:", e));
+  }, [tags, isLoaded]);
+
+  useEffect(() => {
+      if (!isLoaded) return;
+      setPreference('venues', venues).catch(e => console.error("Failed to save venues:", e));
+  }, [venues, isLoaded]);
 
-  // Persist Tags
   useEffect(() => {
-      localStorage.setItem('gourmet_tags', JSON.stringify(tags));
-  }, [tags]);
-
-  const handleUpdateEntries = (newEntries: FoodEntry[]) => {
-      setEntries(newEntries);
-      try {
-        localStorage.setItem('gourmet_journal_entries', JSON.stringify(newEntries));
-      } catch (e) {
+      if (!isLoaded) return;
+      setPreference('rating_weights', ratingWeights).catch(e => console.error("Failed to save rating weights:", e));
+  }, [ratingWeights, isLoaded]);
+
+  // --- History ---
+
+  const recordChange = (change: HistoryChange, label?: string) => {
+      // Mutations made synchronously within one event become a single undo step
+      historyRef.current = recordCommand(historyRef.current, change, label, isBatchingRef.current);
+      if (!isBatchingRef.current) {
+          isBatchingRef.current = true;
+          queueMicrotask(() => { isBatchingRef.current = false; });
+      }
+      if (label) setToast({ id: Date.now(), message: label, action: 'undo' });
+  };
+
+  const persistJournal = (changes: JournalWrite) => {
+      saveJournal(changes, historyImageRefs(historyRef.current)).catch(e => {
         console.error("Storage full or error:", e);
         alert("存储空间不足，可能无法保存所有数据");
+      });
+  };
+
+  const restoreSnapshot = (snapshot: JournalSnapshot) => {
+      if (snapshot.entries) {
+          entriesRef.current = snapshot.entries;
+          setEntries(snapshot.entries);
       }
+      if (snapshot.trash) {
+          trashRef.current = snapshot.trash;
+          setTrash(snapshot.trash);
+      }
+      if (snapshot.entries || snapshot.trash) persistJournal({ entries: snapshot.entries, trash: snapshot.trash });
+      if (snapshot.tags) {
+          tagsRef.current = snapshot.tags;
+          setTags(snapshot.tags);
+      }
+      if (snapshot.venues) {
+          venuesRef.current = snapshot.venues;
+          setVenues(snapshot.venues);
+      }
+      if (snapshot.ratingWeights) {
+          ratingWeightsRef.current = snapshot.ratingWeights;
+          setRatingWeights(snapshot.ratingWeights);
+      }
+  };
+
+  const handleUndo = () => {
+      const result = undo(historyRef.current);
+      if (!result) return;
+      historyRef.current = result.history;
+      restoreSnapshot(result.restore);
+      setToast({ id: Date.now(), message: result.command.label ? `已撤销：${result.command.label}` : '已撤销', action: 'redo' });
+  };
+
+  const handleRedo = () => {
+      const result = redo(historyRef.current);
+      if (!result) return;
+      historyRef.current = result.history;
+      restoreSnapshot(result.restore);
+      setToast({ id: Date.now(), message: result.command.label ? `已重做：${result.command.label}` : '已重做', action: 'undo' });
+  };
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS); text fields keep their native undo
+  useEffect(() => {
+      const handleKeyDown = (e: KeyboardEvent) => {
+          if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+          const target = e.target as HTMLElement | null;
+          if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+
+          const key = e.key.toLowerCase();
+          if (key === 'z' && !e.shiftKey) {
+              e.preventDefault();
+              handleUndo();
+          } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+              e.preventDefault();
+              handleRedo();
+          }
+      };
+      window.addEventListener('keydown', handleKeyDown);
+      return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const commitJournal = (changes: { entries?: FoodEntry[]; trash?: FoodEntry[] }, label?: string) => {
+      // New places get a venue and known ones are matched, whichever path the entries came in by
+      if (changes.entries) {
+          const linked = linkVenues(changes.entries, venuesRef.current);
+          if (linked.venues !== venuesRef.current) updateVenues(linked.venues);
+          changes = { ...changes, entries: linked.entries };
+      }
+      recordChange({
+          entries: changes.entries && { before: entriesRef.current, after: changes.entries },
+          trash: changes.trash && { before: trashRef.current, after: changes.trash }
+      }, label);
+      if (changes.entries) {
+          entriesRef.current = changes.entries;
+          setEntries(changes.entries);
+      }
+      if (changes.trash) {
+          trashRef.current = changes.trash;
+          setTrash(changes.trash);
+      }
+      persistJournal(changes);
+  };
+
+  // Entries dropped from the list are soft-deleted into the recycle bin
+  const handleUpdateEntries = (newEntries: FoodEntry[], label?: string) => {
+      const keptIds = new Set(newEntries.map(e => e.id));
+      const removed = entriesRef.current.filter(e => !keptIds.has(e.id));
+      commitJournal({
+          entries: newEntries,
+          trash: removed.length > 0 ? moveToTrash(removed, trashRef.current) : undefined
+      }, label);
+  };
+
+  // --- Recycle Bin ---
+
+  const handleRestoreEntries = (ids: string[]) => {
+      const { restored, remaining } = restoreFromTrash(trashRef.current, ids, entriesRef.current.map(e => e.id));
+      if (restored.length === 0) return;
+      commitJournal({ entries: [...restored, ...entriesRef.current], trash: remaining }, `已恢复 ${restored.length} 条记录`);
+      // Tags deleted together with their entries come back with them
+      restored.flatMap(e => e.tags).forEach(t => handleAddTag(t));
+  };
+
+  const handleDeletePermanently = (ids: string[]) => {
+      const selected = new Set(ids);
+      commitJournal({ trash: trashRef.current.filter(e => !selected.has(e.id)) }, `已彻底删除 ${ids.length} 条记录`);
+  };
+
+  const handleRetentionChange = (days: number) => {
+      setRetentionDays(days);
+      const { kept, purged } = purgeExpired(trashRef.current, days);
+      // Recorded like any other trash change, so undo never resurrects a stale bin
+      if (purged.length > 0) commitJournal({ trash: kept }, `已清理 ${purged.length} 条过期记录`);
+      setPreference('trash_retention_days', days).catch(e => console.error("Failed to save retention:", e));
+  };
+
+  const updateTags = (newTags: string[], label?: string) => {
+      recordChange({ tags: { before: tagsRef.current, after: newTags } }, label);
+      tagsRef.current = newTags;
+      setTags(newTags);
+  };
+
+  const updateVenues = (newVenues: Venue[], label?: string) => {
+      recordChange({ venues: { before: venuesRef.current, after: newVenues } }, label);
+      venuesRef.current = newVenues;
+      setVenues(newVenues);
+  };
+
+  // --- Venues ---
+
+  const handleUpdateVenue = (venue: Venue) => {
+      updateVenues(venuesRef.current.map(v => v.id === venue.id ? venue : v));
+  };
+
+  const handleMergeVenues = (targetId: string, sourceIds: string[]) => {
+      const merged = mergeVenues({ venues: venuesRef.current, entries: entriesRef.current, trash: trashRef.current }, targetId, sourceIds);
+      if (merged.venues === venuesRef.current) return;
+      updateVenues(merged.venues, `已合并 ${sourceIds.length} 个地点`);
+      commitJournal({ entries: merged.entries, trash: merged.trash });
   };
 
   // --- Tag Management Functions ---
@@ -136,17 +375,17 @@ const App: React.FC = () => {
   const handleAddTag = (newTag: string) => {
       if (!newTag.trim()) return;
       const tag = newTag.trim();
-      if (!tags.includes(tag)) {
-          setTags(prev => [...prev, tag]); 
+      if (!tagsRef.current.includes(tag)) {
+          updateTags([...tagsRef.current, tag]);
       }
   };
 
   const handleDeleteTag = (tagToDelete: string) => {
-      setTags(prev => prev.filter(t => t !== tagToDelete));
+      updateTags(tagsRef.current.filter(t => t !== tagToDelete));
   };
 
   const handleReorderTags = (newTags: string[]) => {
-      setTags(newTags);
+      updateTags(newTags);
   };
 
   const handleRenameTag = (oldTag: string, newTag: string) => {
@@ -154,14 +393,13 @@ const App: React.FC = () => {
     
     const trimmedNewTag = newTag.trim();
 
-    setTags(prev => {
-        if (prev.includes(trimmedNewTag)) {
-            return prev.filter(t => t !== oldTag);
-        }
-        return prev.map(t => t === oldTag ? trimmedNewTag : t);
-    });
+    const currentTags = tagsRef.current;
+    updateTags(
+        currentTags.includes(trimmedNewTag) ? currentTags.filter(t => t !== oldTag) : currentTags.map(t => t === oldTag ? trimmedNewTag : t),
+        `已将标签「${oldTag}」重命名为「${trimmedNewTag}」`
+    );
 
-    const updatedEntries = entries.map(entry => {
+    const updatedEntries = entriesRef.current.map(entry => {
       if (entry.tags.includes(oldTag)) {
         const hasNew = entry.tags.includes(trimmedNewTag);
         let newEntryTags;
@@ -183,7 +421,56 @@ const App: React.FC = () => {
 
   const handleLayoutChange = (mode: 'grid' | 'list') => {
       setLayoutMode(mode);
-      localStorage.setItem('gourmet_layout_mode', mode);
+      setPreference('gourmet_layout_mode', mode).catch(e => console.error("Failed to save layout:", e));
+  };
+
+  const handleFeedFilterChange = (filter: FeedFilter) => {
+      setFeedFilter(filter);
+      setPreference('gourmet_feed_filter', filter).catch(e => console.error("Failed to save filter:", e));
+  };
+
+  const handleFeedSortChange = (sort: FeedSort) => {
+      setFeedSort(sort);
+      setPreference('gourmet_feed_sort', sort).catch(e => console.error("Failed to save sort:", e));
+  };
+
+  const handleTemperatureUnitChange = (unit: TemperatureUnit) => {
+      setTemperatureUnit(unit);
+      setPreference('temperature_unit', unit).catch(e => console.error("Failed to save temperature unit:", e));
+  };
+
+  // Stored overall scores follow the weights; undo restores both together
+  const handleRatingWeightsChange = (weights: RatingWeights) => {
+      recordChange({ ratingWeights: { before: ratingWeightsRef.current, after: weights } }, '已更新评分权重');
+      ratingWeightsRef.current = weights;
+      setRatingWeights(weights);
+      const rescored = rescoreEntries(entriesRef.current, weights);
+      const rescoredTrash = rescoreEntries(trashRef.current, weights);
+      if (rescored !== entriesRef.current || rescoredTrash !== trashRef.current) {
+          commitJournal({
+              entries: rescored !== entriesRef.current ? rescored : undefined,
+              trash: rescoredTrash !== trashRef.current ? rescoredTrash : undefined
+          });
+      }
+  };
+
+  const handleImportBackup = (importedEntries: FoodEntry[], importedTags: string[], importedVenues: Venue[], preferences?: BackupPreferences) => {
+      // Venues first, so imported entries link to their own venues rather than new look-alikes
+      const withImported = addVenues(venuesRef.current, importedVenues);
+      if (withImported !== venuesRef.current) updateVenues(withImported);
+      handleUpdateEntries(importedEntries, '已导入备份');
+      // Keep local tag order, append tags only the backup knows about
+      const usedTags = importedEntries.flatMap(e => e.tags);
+      updateTags(Array.from(new Set([...tagsRef.current, ...importedTags, ...usedTags])));
+
+      if (preferences?.layoutMode) handleLayoutChange(preferences.layoutMode);
+      if (preferences?.feedFilter) handleFeedFilterChange({ ...EMPTY_FILTER, ...preferences.feedFilter });
+      if (preferences?.feedSort) handleFeedSortChange({ ...DEFAULT_SORT, ...preferences.feedSort });
+  };
+
+  const handleImportCsv = (importedEntries: FoodEntry[], newTags: string[]) => {
+      handleUpdateEntries([...importedEntries, ...entriesRef.current], `已导入 ${importedEntries.length} 条记录`);
+      newTags.forEach(t => handleAddTag(t));
   };
 
   const getActiveEntry = () => entries.find(e => e.id === selectedEntryId);
@@ -204,26 +491,24 @@ const App: React.FC = () => {
         entry.tags.forEach(t => handleAddTag(t));
 
         if (currentView === ViewState.EDIT) {
-            setCurrentView(ViewState.DETAIL);
+            goBack({ view: ViewState.DETAIL, entryId: entry.id });
         } else {
-            setCurrentView(ViewState.HOME);
+            go(HOME_ROUTE, { replace: true });
         }
     }
   };
 
   const handleEntryClick = (id: string) => {
-      setSelectedEntryId(id);
-      setCurrentView(ViewState.DETAIL);
+      go({ view: ViewState.DETAIL, entryId: id });
   };
 
   const handleEditClick = () => {
-      setCurrentView(ViewState.EDIT);
+      if (selectedEntryId) go({ view: ViewState.EDIT, entryId: selectedEntryId });
   };
 
   const handleBack = () => {
-      if (currentView === ViewState.DETAIL) setCurrentView(ViewState.HOME);
-      else if (currentView === ViewState.EDIT) setCurrentView(ViewState.DETAIL);
-      else setCurrentView(ViewState.HOME);
+      if (currentView === ViewState.EDIT && selectedEntryId) goBack({ view: ViewState.DETAIL, entryId: selectedEntryId });
+      else goBack(HOME_ROUTE);
   };
 
   // Modern, Native-feel Transitions
@@ -266,24 +551,103 @@ const App: React.FC = () => {
                 onRenameTag={handleRenameTag}
                 onDeleteTag={handleDeleteTag}
                 onReorderTags={handleReorderTags}
+                feedFilter={feedFilter}
+                feedSort={feedSort}
+                onFeedFilterChange={handleFeedFilterChange}
+                onFeedSortChange={handleFeedSortChange}
+                onOpenMap={() => go({ view: ViewState.MAP })}
+                temperatureUnit={temperatureUnit}
             />
         );
       case ViewState.SEARCH:
-        return <DiscoverView />;
+        return (
+            <SearchView 
+                entries={entries}
+                tags={tags}
+                query={route.query || ''}
+                onQueryChange={query => go({ view: ViewState.SEARCH, query }, { replace: true })}
+                onEntryClick={handleEntryClick}
+                temperatureUnit={temperatureUnit}
+            />
+        );
       case ViewState.ADD:
         return (
           <AddEntryView 
             onSave={handleSaveEntry} 
-            onCancel={() => setCurrentView(ViewState.HOME)} 
+            onCancel={() => goBack(HOME_ROUTE)} 
             availableTags={tags}
             onAddTag={handleAddTag}
+            temperatureUnit={temperatureUnit}
+            ratingWeights={ratingWeights}
+            venues={venues}
+            entries={entries}
           />
         );
       case ViewState.PROFILE:
-        return <ProfileView />;
+        return (
+            <ProfileView 
+                entries={entries} 
+                tags={tags}
+                venues={venues}
+                preferences={{ layoutMode, feedFilter, feedSort }}
+                onImport={handleImportBackup}
+                onImportCsv={handleImportCsv}
+                trashCount={trash.length}
+                onOpenTrash={() => go({ view: ViewState.TRASH })}
+                temperatureUnit={temperatureUnit}
+                onTemperatureUnitChange={handleTemperatureUnitChange}
+                ratingWeights={ratingWeights}
+                onRatingWeightsChange={handleRatingWeightsChange}
+            />
+        );
+      case ViewState.TRASH:
+        return (
+            <TrashView
+                trash={trash}
+                retentionDays={retentionDays}
+                onRetentionChange={handleRetentionChange}
+                onRestore={handleRestoreEntries}
+                onDeletePermanently={handleDeletePermanently}
+                onBack={() => goBack({ view: ViewState.PROFILE })}
+            />
+        );
+      case ViewState.MAP:
+        return (
+            <MapView
+                entries={entries}
+                tags={tags}
+                feedFilter={feedFilter}
+                onFeedFilterChange={handleFeedFilterChange}
+                onEntryClick={handleEntryClick}
+                onBack={() => goBack(HOME_ROUTE)}
+            />
+        );
+      case ViewState.VENUE:
+        const venue = venues.find(v => v.id === route.venueId);
+        return venue ? (
+            <VenueView
+                venue={venue}
+                venues={venues}
+                entries={entries}
+                onBack={() => goBack(HOME_ROUTE)}
+                onEntryClick={handleEntryClick}
+                onUpdate={handleUpdateVenue}
+                onMerge={sourceIds => handleMergeVenues(venue.id, sourceIds)}
+            />
+        ) : <NotFoundView onHome={() => go(HOME_ROUTE, { replace: true })} />;
       case ViewState.DETAIL:
         const entry = getActiveEntry();
-        return entry ? <DetailView entry={entry} onBack={handleBack} onEdit={handleEditClick} /> : null;
+        return entry ? (
+            <DetailView
+                entry={entry}
+                venue={venues.find(v => v.id === entry.venueId)}
+                onBack={handleBack}
+                onEdit={handleEditClick}
+                onOpenVenue={venueId => go({ view: ViewState.VENUE, venueId })}
+                temperatureUnit={temperatureUnit}
+                ratingWeights={ratingWeights}
+            />
+        ) : <NotFoundView onHome={() => go(HOME_ROUTE, { replace: true })} />;
       case ViewState.EDIT:
         const editEntry = getActiveEntry();
         return editEntry ? (
@@ -293,8 +657,12 @@ const App: React.FC = () => {
                 onCancel={handleBack}
                 availableTags={tags}
                 onAddTag={handleAddTag}
+                temperatureUnit={temperatureUnit}
+                ratingWeights={ratingWeights}
+                venues={venues}
+                entries={entries}
             />
-        ) : null;
+        ) : <NotFoundView onHome={() => go(HOME_ROUTE, { replace: true })} />;
       default:
         return null;
     }
@@ -326,7 +694,7 @@ const App: React.FC = () => {
               perspective: '1000px'
             }}
           >
-            {renderView()}
+            {isLoaded && renderView()}
           </motion.div>
         </AnimatePresence>
       </main>
@@ -340,10 +708,16 @@ const App: React.FC = () => {
                 transition={{ type: "spring", stiffness: 300, damping: 30 }}
                 className="fixed bottom-0 left-0 right-0 z-50 pointer-events-none"
             >
-                <BottomNav currentView={currentView} onChange={setCurrentView} />
+                <BottomNav currentView={currentView} onChange={view => go(view === ViewState.SEARCH ? { view, query: searchQuery } : { view })} />
             </motion.div>
         )}
       </AnimatePresence>
+
+      <UndoToast
+          toast={toast}
+          onAction={action => action === 'undo' ? handleUndo() : handleRedo()}
+          onDismiss={() => setToast(null)}
+      />
     </div>
   );
 };
@@ -0,0 +1,179 @@
+import React, { useRef, useState, useEffect } from 'react';
+import { FileJson, FileArchive, BookText, Table, Upload, Loader2, MapPinOff } from 'lucide-react';
+import { FoodEntry, Venue } from '../types';
+import { ImportDialog } from './ImportDialog';
+import { PublishDialog } from './PublishDialog';
+import { CsvImportDialog } from './CsvImportDialog';
+import { BackupPreferences, ParsedBackup, createBackup, parseBackup } from '../services/backup';
+import { createArchive, readArchive } from '../services/archive';
+import { PublishOptions, createPublishBundle } from '../services/publish';
+import { entriesToCsv } from '../services/spreadsheet';
+import { getPreference, setPreference } from '../services/storage';
+import { parseCsv } from '../utils/csv';
+import { downloadBlob, fileDateStamp } from '../utils/download';
+
+interface BackupPanelProps {
+  entries: FoodEntry[];
+  tags: string[];
+  venues: Venue[];
+  preferences: BackupPreferences;
+  onImport: (entries: FoodEntry[], tags: string[], venues: Venue[], preferences?: BackupPreferences) => void;
+  onImportCsv: (entries: FoodEntry[], newTags: string[]) => void;
+}
+
+const actionClass = "flex items-center gap-3 w-full p-3 rounded-2xl bg-stone-50 hover:bg-stone-100 transition-colors text-left disabled:opacity-50";
+
+export const BackupPanel: React.FC<BackupPanelProps> = ({ entries, tags, venues, preferences, onImport, onImportCsv }) => {
+  const [busy, setBusy] = useState<string | null>(null);
+  const [pendingImport, setPendingImport] = useState<ParsedBackup | null>(null);
+  const [pendingCsv, setPendingCsv] = useState<string[][] | null>(null);
+  const [isPublishOpen, setIsPublishOpen] = useState(false);
+  const [stripLocation, setStripLocation] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+      getPreference('strip_photo_location')
+        .then(value => setStripLocation(!!value))
+        .catch(e => console.warn("Failed to load export privacy preference", e));
+  }, []);
+
+  const toggleStripLocation = () => {
+      const next = !stripLocation;
+      setStripLocation(next);
+      setPreference('strip_photo_location', next).catch(e => console.error("Failed to save export privacy preference", e));
+  };
+
+  const handleExportJson = async () => {
+      setBusy('json');
+      try {
+          const backup = await createBackup(entries, tags, venues, preferences, stripLocation);
+          downloadBlob(new Blob([JSON.stringify(backup)], { type: 'application/json' }), `gourmet-journal-${fileDateStamp()}.json`);
+      } catch (e) {
+          console.error("Backup export failed:", e);
+          alert("导出失败，请稍后重试");
+      } finally {
+          setBusy(null);
+      }
+  };
+
+  const handleExportZip = async () => {
+      setBusy('zip');
+      try {
+          const archive = await createArchive(entries, tags, venues, preferences, stripLocation);
+          downloadBlob(archive, `gourmet-journal-${fileDateStamp()}.zip`);
+      } catch (e) {
+          console.error("Archive export failed:", e);
+          alert("导出失败，请稍后重试");
+      } finally {
+          setBusy(null);
+      }
+  };
+
+  const handlePublish = async (options: PublishOptions) => {
+      setIsPublishOpen(false);
+      setBusy('publish');
+      try {
+          const bundle = await createPublishBundle(entries, options, stripLocation);
+          downloadBlob(bundle, `gourmet-journal-notes-${fileDateStamp()}.zip`);
+      } catch (e) {
+          console.error("Publish export failed:", e);
+          alert("导出失败，请稍后重试");
+      } finally {
+          setBusy(null);
+      }
+  };
+
+  const handleExportCsv = () => {
+      downloadBlob(new Blob([entriesToCsv(entries, stripLocation)], { type: 'text/csv;charset=utf-8' }), `gourmet-journal-${fileDateStamp()}.csv`);
+  };
+
+  const handleFileSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      if (fileInputRef.current) fileInputRef.current.value = '';
+      if (!file) return;
+
+      setBusy('import');
+      try {
+          const name = file.name.toLowerCase();
+          if (name.endsWith('.csv') || file.type === 'text/csv') {
+              const rows = parseCsv(await file.text());
+              if (rows.length < 2) throw new Error("CSV 文件中没有数据行");
+              setPendingCsv(rows);
+          } else if (name.endsWith('.zip') || file.type === 'application/zip') {
+              setPendingImport(await readArchive(file));
+          } else {
+              setPendingImport(parseBackup(await file.text()));
+          }
+      } catch (err) {
+          alert(err instanceof Error ? err.message : "无法读取备份文件");
+      } finally {
+          setBusy(null);
+      }
+  };
+
+  const handleConfirmImport = (merged: FoodEntry[], importedTags: string[], importedPreferences?: BackupPreferences) => {
+      onImport(merged, importedTags, pendingImport?.venues ?? [], importedPreferences);
+      setPendingImport(null);
+  };
+
+  const handleConfirmCsv = (imported: FoodEntry[], newTags: string[]) => {
+      onImportCsv(imported, newTags);
+      setPendingCsv(null);
+  };
+
+  const actions = [
+      { key: 'json', icon: FileJson, label: '导出完整备份', hint: 'JSON · 含图片', onClick: handleExportJson },
+      { key: 'zip', icon: FileArchive, label: '导出 ZIP 压缩包', hint: 'journal.json + 原图文件', onClick: handleExportZip },
+      { key: 'publish', icon: BookText, label: '导出为笔记 / 网页', hint: 'Markdown · 静态 HTML', onClick: () => setIsPublishOpen(true) },
+      { key: 'csv', icon: Table, label: '导出 CSV 表格', hint: '每条记录一行 · 可用表格软件打开', onClick: handleExportCsv },
+      { key: 'import', icon: Upload, label: '导入', hint: 'JSON、ZIP 备份或 CSV 表格', onClick: () => fileInputRef.current?.click() }
+  ];
+
+  return (
+    <>
+      <div className="space-y-2">
+          {actions.map(({ key, icon: Icon, label, hint, onClick }) => (
+              <button key={key} onClick={onClick} disabled={busy !== null} className={actionClass}>
+                  <div className="w-9 h-9 rounded-full bg-white flex items-center justify-center text-stone-500 shadow-sm">
+                      {busy === key ? <Loader2 size={16} className="animate-spin" /> : <Icon size={16} />}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                      <div className="text-xs font-medium text-stone-700">{label}</div>
+                      <div className="text-[10px] text-stone-400">{hint}</div>
+                  </div>
+              </button>
+          ))}
+          <button onClick={toggleStripLocation} className={actionClass}>
+              <div className="w-9 h-9 rounded-full bg-white flex items-center justify-center text-stone-500 shadow-sm">
+                  <MapPinOff size={16} />
+              </div>
+              <div className="flex-1 min-w-0">
+                  <div className="text-xs font-medium text-stone-700">导出时移除照片定位</div>
+                  <div className="text-[10px] text-stone-400">清除照片 EXIF 中的 GPS 坐标和记录的经纬度</div>
+              </div>
+              <div className={`w-9 h-5 rounded-full p-0.5 transition-colors ${stripLocation ? 'bg-stone-800' : 'bg-stone-200'}`}>
+                  <div className={`w-4 h-4 rounded-full bg-white shadow-sm transition-transform ${stripLocation ? 'translate-x-4' : ''}`} />
+              </div>
+          </button>
+          <input ref={fileInputRef} type="file" accept="application/json,.json,application/zip,.zip,text/csv,.csv" className="hidden" onChange={handleFileSelected} />
+      </div>
+
+      <ImportDialog
+          backup={pendingImport}
+          existing={entries}
+          onCancel={() => setPendingImport(null)}
+          onConfirm={handleConfirmImport}
+      />
+
+      <CsvImportDialog
+          rows={pendingCsv}
+          tags={tags}
+          existing={entries}
+          onCancel={() => setPendingCsv(null)}
+          onConfirm={handleConfirmCsv}
+      />
+
+      <PublishDialog isOpen={isPublishOpen} onCancel={() => setIsPublishOpen(false)} onConfirm={handlePublish} />
+    </>
+  );
+};
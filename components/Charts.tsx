@@ -0,0 +1,122 @@
+import React from 'react';
+
+// Minimal SVG charts for the profile dashboard; no charting dependency.
+
+interface ChartPoint {
+  label: string;
+  value: number | null;
+}
+
+interface ChartProps {
+  data: ChartPoint[];
+  height?: number;
+  color?: string;
+}
+
+const VIEW_WIDTH = 300;
+
+export const BarChart: React.FC<ChartProps> = ({ data, height = 120, color = '#44403C' }) => {
+  const max = Math.max(1, ...data.map(d => d.value || 0));
+  const slot = VIEW_WIDTH / data.length;
+  const barWidth = slot * 0.55;
+  const chartHeight = height - 16;
+
+  return (
+    <svg viewBox={`0 0 ${VIEW_WIDTH} ${height}`} className="w-full" role="img">
+      {data.map((d, i) => {
+        const h = ((d.value || 0) / max) * (chartHeight - 10);
+        const x = i * slot + (slot - barWidth) / 2;
+        return (
+          <g key={d.label}>
+            <rect x={x} y={chartHeight - h} width={barWidth} height={Math.max(h, 1)} rx={3} fill={color} opacity={d.value ? 0.85 : 0.15} />
+            {!!d.value && (
+              <text x={x + barWidth / 2} y={chartHeight - h - 3} textAnchor="middle" fontSize={8} fill="#A8A29E">{d.value}</text>
+            )}
+            <text x={x + barWidth / 2} y={height - 3} textAnchor="middle" fontSize={8} fill="#A8A29E">{d.label}</text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+interface LineChartProps extends ChartProps {
+  min?: number;
+  max?: number;
+}
+
+// Points with a null value are skipped and break the line
+export const LineChart: React.FC<LineChartProps> = ({ data, height = 120, color = '#F59E0B', min = 0, max = 5 }) => {
+  const slot = VIEW_WIDTH / data.length;
+  const chartHeight = height - 16;
+  const y = (v: number) => chartHeight - ((v - min) / (max - min)) * (chartHeight - 10);
+
+  const segments: string[] = [];
+  let current = '';
+  data.forEach((d, i) => {
+    const x = i * slot + slot / 2;
+    if (d.value === null) {
+      if (current) segments.push(current);
+      current = '';
+    } else {
+      current += `${current ? 'L' : 'M'}${x.toFixed(1)},${y(d.value).toFixed(1)} `;
+    }
+  });
+  if (current) segments.push(current);
+
+  return (
+    <svg viewBox={`0 0 ${VIEW_WIDTH} ${height}`} className="w-full" role="img">
+      {[min, (min + max) / 2, max].map(v => (
+        <line key={v} x1={0} x2={VIEW_WIDTH} y1={y(v)} y2={y(v)} stroke="#E7E5E4" strokeDasharray="2 3" strokeWidth={0.5} />
+      ))}
+      {segments.map((path, i) => (
+        <path key={i} d={path} fill="none" stroke={color} strokeWidth={1.5} strokeLinecap="round" strokeLinejoin="round" />
+      ))}
+      {data.map((d, i) => d.value !== null && (
+        <circle key={d.label} cx={i * slot + slot / 2} cy={y(d.value)} r={2.5} fill="white" stroke={color} strokeWidth={1.5} />
+      ))}
+      {data.map((d, i) => (
+        <text key={`l-${d.label}`} x={i * slot + slot / 2} y={height - 3} textAnchor="middle" fontSize={8} fill="#A8A29E">{d.label}</text>
+      ))}
+    </svg>
+  );
+};
+
+interface DonutSlice {
+  label: string;
+  value: number;
+  color: string;
+}
+
+export const DonutChart: React.FC<{ data: DonutSlice[]; size?: number }> = ({ data, size = 120 }) => {
+  const total = data.reduce((sum, d) => sum + d.value, 0);
+  const radius = 40;
+  const circumference = 2 * Math.PI * radius;
+  let offset = 0;
+
+  return (
+    <svg viewBox="0 0 100 100" width={size} height={size} role="img">
+      <circle cx={50} cy={50} r={radius} fill="none" stroke="#F5F5F4" strokeWidth={14} />
+      {total > 0 && data.map(d => {
+        const length = (d.value / total) * circumference;
+        const slice = (
+          <circle
+            key={d.label}
+            cx={50}
+            cy={50}
+            r={radius}
+            fill="none"
+            stroke={d.color}
+            strokeWidth={14}
+            strokeDasharray={`${length} ${circumference - length}`}
+            strokeDashoffset={-offset}
+            transform="rotate(-90 50 50)"
+          />
+        );
+        offset += length;
+        return slice;
+      })}
+      <text x={50} y={54} textAnchor="middle" fontSize={12} fill="#44403C" className="serif">{total}</text>
+    </svg>
+  );
+};
@@ -0,0 +1,130 @@
+import React, { useMemo, useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, AlertTriangle, Table } from 'lucide-react';
+import { FoodEntry } from '../types';
+import { CSV_FIELDS, CsvField, CsvMapping, guessMapping, rowsToEntries } from '../services/spreadsheet';
+import { formatShortDate } from '../utils/date';
+
+interface CsvImportDialogProps {
+  rows: string[][] | null; // Header row first
+  tags: string[];
+  existing: FoodEntry[]; // Rows matching one of these by id are skipped
+  onCancel: () => void;
+  onConfirm: (entries: FoodEntry[], newTags: string[]) => void;
+}
+
+const PREVIEW_COUNT = 3;
+
+export const CsvImportDialog: React.FC<CsvImportDialogProps> = ({ rows, tags, existing, onCancel, onConfirm }) => {
+  const headers = rows?.[0] || [];
+  const [mapping, setMapping] = useState<CsvMapping>(() => guessMapping(headers));
+
+  useEffect(() => {
+      setMapping(guessMapping(rows?.[0] || []));
+  }, [rows]);
+
+  const result = useMemo(() => rows ? rowsToEntries(rows.slice(1), mapping, tags, existing.map(e => e.id)) : null, [rows, mapping, tags, existing]);
+
+  const setColumn = (field: CsvField, value: string) => {
+      setMapping(prev => ({ ...prev, [field]: value === '' ? null : Number(value) }));
+  };
+
+  return (
+    <AnimatePresence>
+        {rows && result && (
+            <motion.div
+                initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}
+                className="fixed inset-0 z-[110] flex items-center justify-center bg-black/30 backdrop-blur-sm p-5"
+                onClick={onCancel}
+            >
+                <motion.div
+                    initial={{ scale: 0.95, y: 10 }} animate={{ scale: 1, y: 0 }} exit={{ scale: 0.95, opacity: 0 }}
+                    onClick={e => e.stopPropagation()}
+                    className="bg-white rounded-3xl shadow-2xl w-full max-w-md max-h-[80vh] flex flex-col"
+                >
+                    <div className="flex items-center justify-between p-5 pb-3">
+                        <div className="flex items-center gap-2">
+                            <Table size={16} className="text-stone-800" />
+                            <h3 className="text-sm font-semibold text-stone-800">导入 CSV</h3>
+                        </div>
+                        <button onClick={onCancel} className="w-8 h-8 flex items-center justify-center rounded-full bg-stone-100 text-stone-500 hover:bg-stone-200"><X size={16} /></button>
+                    </div>
+
+                    <div className="flex-1 overflow-y-auto px-5 space-y-4">
+                        {/* Column mapping */}
+                        <div>
+                            <h4 className="text-[10px] font-bold text-stone-400 uppercase tracking-widest mb-2">对应列</h4>
+                            <div className="space-y-1.5">
+                                {CSV_FIELDS.map(({ field, label, required }) => (
+                                    <div key={field} className="flex items-center justify-between gap-3">
+                                        <span className="text-xs text-stone-600">{label}{required && <span className="text-red-400"> *</span>}</span>
+                                        <select
+                                            value={mapping[field] ?? ''}
+                                            onChange={e => setColumn(field, e.target.value)}
+                                            className="w-40 text-xs text-stone-700 bg-stone-50 border border-stone-100 rounded-lg px-2 py-1.5 outline-none"
+                                        >
+                                            <option value="">不导入</option>
+                                            {headers.map((header, i) => (
+                                                <option key={i} value={i}>{header || `第 ${i + 1} 列`}</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+
+                        {/* Preview */}
+                        <div>
+                            <h4 className="text-[10px] font-bold text-stone-400 uppercase tracking-widest mb-2">预览 · {result.entries.length} 条可导入</h4>
+                            {result.entries.length === 0 ? (
+                                <p className="text-xs text-stone-300">没有可导入的行</p>
+                            ) : (
+                                <div className="space-y-1.5">
+                                    {result.entries.slice(0, PREVIEW_COUNT).map(entry => (
+                                        <div key={entry.id} className="p-2.5 rounded-xl bg-stone-50">
+                                            <div className="flex items-center justify-between">
+                                                <span className="text-xs text-stone-700 truncate">{entry.title}</span>
+                                                <span className="text-[10px] text-amber-500 flex-shrink-0 ml-2">{entry.rating.toFixed(1)}</span>
+                                            </div>
+                                            <div className="text-[10px] text-stone-400 truncate">
+                                                {[formatShortDate(entry.eatenAt), entry.location, entry.tags.join(' · ')].filter(Boolean).join(' · ')}
+                                            </div>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+
+                        {result.newTags.length > 0 && (
+                            <p className="text-[11px] text-stone-500">将新建标签：{result.newTags.join('、')}</p>
+                        )}
+
+                        {result.errors.length > 0 && (
+                            <div className="flex items-start gap-2 p-3 rounded-2xl bg-amber-50 text-amber-700 text-[11px] leading-relaxed">
+                                <AlertTriangle size={14} className="flex-shrink-0 mt-0.5" />
+                                <div>
+                                    <div>{result.errors.length} 行将被跳过</div>
+                                    {result.errors.slice(0, PREVIEW_COUNT).map(err => (
+                                        <div key={err.row} className="text-amber-600/80">第 {err.row} 行：{err.reason}</div>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+                    </div>
+
+                    <div className="flex gap-3 p-5">
+                        <button onClick={onCancel} className="flex-1 py-2.5 text-xs font-medium text-stone-500 bg-stone-100 rounded-xl">取消</button>
+                        <button
+                            onClick={() => onConfirm(result.entries, result.newTags)}
+                            disabled={result.entries.length === 0}
+                            className="flex-1 py-2.5 text-xs font-medium text-white bg-stone-800 rounded-xl hover:bg-stone-900 disabled:opacity-40"
+                        >
+                            导入 {result.entries.length} 条
+                        </button>
+                    </div>
+                </motion.div>
+            </motion.div>
+        )}
+    </AnimatePresence>
+  );
+};
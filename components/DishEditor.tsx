@@ -0,0 +1,107 @@
+import React from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Plus, X, Check } from 'lucide-react';
+import { Dish } from '../types';
+import { StarRating } from './StarRating';
+import { StoredImage } from './StoredImage';
+import { emptyDish } from '../services/dishes';
+
+interface DishEditorProps {
+  dishes: Dish[];
+  images: string[]; // The entry's photos, offered for linking
+  onChange: (dishes: Dish[]) => void;
+}
+
+const fieldClass = "bg-white/60 border border-stone-200/50 rounded-xl px-3 py-2 text-xs text-stone-700 placeholder-stone-400 focus:outline-none focus:bg-white focus:border-stone-300 transition-all";
+
+export const DishEditor: React.FC<DishEditorProps> = ({ dishes, images, onChange }) => {
+  const update = (id: string, patch: Partial<Dish>) => onChange(dishes.map(d => d.id === id ? { ...d, ...patch } : d));
+
+  const toggleImage = (dish: Dish, index: number) => {
+      const current = dish.imageIndices ?? [];
+      const next = current.includes(index) ? current.filter(i => i !== index) : [...current, index].sort((a, b) => a - b);
+      update(dish.id, { imageIndices: next.length > 0 ? next : undefined });
+  };
+
+  const parsePrice = (value: string) => {
+      const price = Number(value);
+      return value.trim() === '' || !Number.isFinite(price) || price < 0 ? undefined : price;
+  };
+
+  return (
+    <div className="space-y-3">
+      <AnimatePresence initial={false}>
+        {dishes.map(dish => (
+            <motion.div
+                key={dish.id}
+                layout
+                initial={{ opacity: 0, y: 8 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, scale: 0.95 }}
+                className="p-4 rounded-3xl bg-white/30 border border-stone-100/50 space-y-2.5"
+            >
+                <div className="flex items-center gap-2">
+                    <input
+                        value={dish.name}
+                        onChange={e => update(dish.id, { name: e.target.value })}
+                        placeholder="菜名，例如：麻婆豆腐"
+                        className={`${fieldClass} flex-1 min-w-0`}
+                    />
+                    <input
+                        type="number"
+                        inputMode="decimal"
+                        min={0}
+                        step="any"
+                        value={dish.price ?? ''}
+                        onChange={e => update(dish.id, { price: parsePrice(e.target.value) })}
+                        placeholder="¥ 价格"
+                        className={`${fieldClass} w-24`}
+                    />
+                    <button
+                        onClick={() => onChange(dishes.filter(d => d.id !== dish.id))}
+                        className="w-7 h-7 flex-shrink-0 flex items-center justify-center rounded-full text-stone-400 hover:bg-stone-100 hover:text-stone-600 transition-colors"
+                    >
+                        <X size={14} />
+                    </button>
+                </div>
+                <StarRating value={dish.rating ?? 0} onChange={value => update(dish.id, { rating: value || undefined })} size={16} />
+                <input
+                    value={dish.note ?? ''}
+                    onChange={e => update(dish.id, { note: e.target.value })}
+                    placeholder="一句话点评（选填）"
+                    className={`${fieldClass} w-full`}
+                />
+                {images.length > 0 && (
+                    <div className="flex gap-1.5 overflow-x-auto no-scrollbar">
+                        {images.map((src, index) => {
+                            const linked = dish.imageIndices?.includes(index) ?? false;
+                            return (
+                                <button
+                                    key={index}
+                                    onClick={() => toggleImage(dish, index)}
+                                    className={`relative w-10 h-10 flex-shrink-0 rounded-lg overflow-hidden border-2 transition-all ${linked ? 'border-amber-400' : 'border-transparent opacity-60 hover:opacity-100'}`}
+                                >
+                                    <StoredImage src={src} variant="thumb" className="w-full h-full object-cover" />
+                                    {linked && (
+                                        <div className="absolute inset-0 bg-amber-400/30 flex items-center justify-center">
+                                            <Check size={12} className="text-white" strokeWidth={3} />
+                                        </div>
+                                    )}
+                                </button>
+                            );
+                        })}
+                    </div>
+                )}
+            </motion.div>
+        ))}
+      </AnimatePresence>
+      <button
+          onClick={() => onChange([...dishes, emptyDish()])}
+          className="w-full h-10 rounded-2xl border border-dashed border-stone-300 flex items-center justify-center gap-1.5 text-xs text-stone-400 hover:border-stone-500 hover:text-stone-600 transition-all active:scale-[0.98] bg-white/50"
+      >
+          <Plus size={12} />
+          <span>添加菜品</span>
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,211 @@
+import React from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, ArrowUp, ArrowDown, RotateCcw } from 'lucide-react';
+import { MiniCapsule } from './MiniCapsule';
+import { WEATHER_TYPES } from './WeatherIcon';
+import { FeedFilter, FeedSort, SORT_MODES, EMPTY_FILTER, DEFAULT_SORT } from '../services/feed';
+import { WeatherGroup, weatherGroup } from '../utils/weatherCodes';
+import { RATING_DIMENSIONS } from '../services/ratings';
+import { RatingDimension } from '../types';
+
+interface FeedFilterSheetProps {
+  isOpen: boolean;
+  onClose: () => void;
+  tags: string[];
+  filter: FeedFilter;
+  sort: FeedSort;
+  onFilterChange: (filter: FeedFilter) => void;
+  onSortChange: (sort: FeedSort) => void;
+  resultCount: number;
+}
+
+const RATING_STEPS = [0, 1, 2, 2.5, 3, 3.5, 4, 4.5, 5];
+
+// "综合" (the overall score) first, then each dimension
+const DIMENSION_OPTIONS: { id?: RatingDimension; label: string }[] = [{ label: '综合' }, ...RATING_DIMENSIONS];
+
+const sectionLabel = "text-[10px] font-bold text-stone-400 uppercase tracking-widest mb-2";
+const fieldClass = "w-full bg-stone-100 rounded-xl px-3 py-2 text-xs text-stone-700 focus:outline-none focus:ring-2 focus:ring-stone-200";
+
+export const FeedFilterSheet: React.FC<FeedFilterSheetProps> = ({
+  isOpen,
+  onClose,
+  tags,
+  filter,
+  sort,
+  onFilterChange,
+  onSortChange,
+  resultCount
+}) => {
+  const update = (patch: Partial<FeedFilter>) => onFilterChange({ ...filter, ...patch });
+
+  const toggleTag = (tag: string) => {
+      update({ tags: filter.tags.includes(tag) ? filter.tags.filter(t => t !== tag) : [...filter.tags, tag] });
+  };
+
+  // Filters match by group, so saved codes from other members of a group count as selected
+  const isWeatherActive = (group: WeatherGroup) => filter.weatherCodes.some(c => weatherGroup(c) === group);
+
+  const toggleWeather = (group: WeatherGroup, code: number) => {
+      update({ weatherCodes: isWeatherActive(group) ? filter.weatherCodes.filter(c => weatherGroup(c) !== group) : [...filter.weatherCodes, code] });
+  };
+
+  const parseRating = (value: string) => value === '' ? undefined : Number(value);
+
+  const handleReset = () => {
+      onFilterChange(EMPTY_FILTER);
+      onSortChange(DEFAULT_SORT);
+  };
+
+  return (
+    <AnimatePresence>
+        {isOpen && (
+            <motion.div
+                initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}
+                className="fixed inset-0 z-[100] flex items-end justify-center bg-black/20 backdrop-blur-sm"
+                onClick={onClose}
+            >
+                <motion.div
+                    initial={{ y: '100%' }} animate={{ y: 0 }} exit={{ y: '100%' }}
+                    transition={{ type: "spring", stiffness: 300, damping: 30 }}
+                    className="bg-white rounded-t-[2rem] w-full max-w-2xl shadow-2xl max-h-[80vh] flex flex-col"
+                    onClick={e => e.stopPropagation()}
+                >
+                    <div className="flex items-center justify-between p-5 pb-3">
+                        <h2 className="text-sm font-semibold text-stone-800 tracking-wide">筛选与排序</h2>
+                        <div className="flex items-center gap-2">
+                            <button onClick={handleReset} className="w-8 h-8 flex items-center justify-center rounded-full bg-stone-100 text-stone-500 hover:bg-stone-200 transition-colors">
+                                <RotateCcw size={14} />
+                            </button>
+                            <button onClick={onClose} className="w-8 h-8 flex items-center justify-center rounded-full bg-stone-100 text-stone-500 hover:bg-stone-200 transition-colors">
+                                <X size={16} />
+                            </button>
+                        </div>
+                    </div>
+
+                    <div className="flex-1 overflow-y-auto px-5 pb-4 space-y-5">
+                        {/* Sort */}
+                        <div>
+                            <h3 className={sectionLabel}>排序</h3>
+                            <div className="flex flex-wrap items-center gap-2">
+                                {SORT_MODES.map(({ mode, label }) => (
+                                    <MiniCapsule key={mode} label={label} active={sort.mode === mode} onClick={() => onSortChange({ ...sort, mode })} />
+                                ))}
+                                {sort.mode !== 'manual' && (
+                                    <button
+                                        onClick={() => onSortChange({ ...sort, direction: sort.direction === 'asc' ? 'desc' : 'asc' })}
+                                        className="h-7 px-3 rounded-full border border-stone-200 flex items-center gap-1 text-[11px] text-stone-500 hover:border-stone-400 transition-all"
+                                    >
+                                        {sort.direction === 'asc' ? <ArrowUp size={12} /> : <ArrowDown size={12} />}
+                                        <span>{sort.direction === 'asc' ? '升序' : '降序'}</span>
+                                    </button>
+                                )}
+                            </div>
+                            {sort.mode === 'rating' && (
+                                <div className="flex flex-wrap gap-2 mt-2">
+                                    {DIMENSION_OPTIONS.map(({ id, label }) => (
+                                        <MiniCapsule key={label} label={label} active={sort.dimension === id} onClick={() => onSortChange({ ...sort, dimension: id })} />
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+
+                        {/* Tags */}
+                        <div>
+                            <div className="flex items-center justify-between">
+                                <h3 className={sectionLabel}>标签</h3>
+                                <div className="flex bg-stone-100 rounded-full p-0.5 mb-2">
+                                    {(['any', 'all'] as const).map(mode => (
+                                        <button
+                                            key={mode}
+                                            onClick={() => update({ tagMode: mode })}
+                                            className={`px-3 py-0.5 rounded-full text-[10px] transition-colors ${filter.tagMode === mode ? 'bg-white text-stone-800 shadow-sm' : 'text-stone-400'}`}
+                                        >
+                                            {mode === 'any' ? '任一' : '全部'}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                            <div className="flex flex-wrap gap-2">
+                                {tags.map(tag => (
+                                    <MiniCapsule key={tag} label={tag} active={filter.tags.includes(tag)} onClick={() => toggleTag(tag)} />
+                                ))}
+                            </div>
+                        </div>
+
+                        {/* Rating */}
+                        <div>
+                            <h3 className={sectionLabel}>评分</h3>
+                            <div className="flex flex-wrap gap-2 mb-2">
+                                {DIMENSION_OPTIONS.map(({ id, label }) => (
+                                    <MiniCapsule key={label} label={label} active={filter.ratingDimension === id} onClick={() => update({ ratingDimension: id })} />
+                                ))}
+                            </div>
+                            <div className="flex items-center gap-2">
+                                <select value={filter.minRating ?? ''} onChange={e => update({ minRating: parseRating(e.target.value) })} className={fieldClass}>
+                                    <option value="">不限</option>
+                                    {RATING_STEPS.map(r => <option key={r} value={r}>≥ {r}</option>)}
+                                </select>
+                                <span className="text-stone-300 text-xs">—</span>
+                                <select value={filter.maxRating ?? ''} onChange={e => update({ maxRating: parseRating(e.target.value) })} className={fieldClass}>
+                                    <option value="">不限</option>
+                                    {RATING_STEPS.map(r => <option key={r} value={r}>≤ {r}</option>)}
+                                </select>
+                            </div>
+                        </div>
+
+                        {/* Date range */}
+                        <div>
+                            <h3 className={sectionLabel}>日期</h3>
+                            <div className="flex items-center gap-2">
+                                <input type="date" value={filter.fromDate ?? ''} onChange={e => update({ fromDate: e.target.value || undefined })} className={fieldClass} />
+                                <span className="text-stone-300 text-xs">—</span>
+                                <input type="date" value={filter.toDate ?? ''} onChange={e => update({ toDate: e.target.value || undefined })} className={fieldClass} />
+                            </div>
+                        </div>
+
+                        {/* Location */}
+                        <div>
+                            <h3 className={sectionLabel}>地点</h3>
+                            <input
+                                type="text"
+                                value={filter.location ?? ''}
+                                onChange={e => update({ location: e.target.value || undefined })}
+                                placeholder="地点包含..."
+                                className={fieldClass}
+                            />
+                        </div>
+
+                        {/* Weather */}
+                        <div>
+                            <h3 className={sectionLabel}>天气</h3>
+                            <div className="flex flex-wrap gap-2">
+                                {WEATHER_TYPES.map(type => (
+                                    <MiniCapsule key={type.code} label={type.label} active={isWeatherActive(type.group)} onClick={() => toggleWeather(type.group, type.code)} />
+                                ))}
+                            </div>
+                        </div>
+
+                        {/* Photos */}
+                        <label className="flex items-center justify-between py-1 cursor-pointer">
+                            <span className="text-xs text-stone-600">仅看有照片的记录</span>
+                            <input
+                                type="checkbox"
+                                checked={!!filter.hasPhotos}
+                                onChange={e => update({ hasPhotos: e.target.checked || undefined })}
+                                className="w-4 h-4 accent-stone-800"
+                            />
+                        </label>
+                    </div>
+
+                    <div className="p-5 pt-3 border-t border-stone-50">
+                        <button onClick={onClose} className="w-full py-3 rounded-full bg-stone-800 text-white text-xs font-medium tracking-widest hover:bg-stone-900 transition-colors">
+                            查看 {resultCount} 条记录
+                        </button>
+                    </div>
+                </motion.div>
+            </motion.div>
+        )}
+    </AnimatePresence>
+  );
+};
@@ -2,6 +2,11 @@ import React, { memo, useRef } from 'react';
 import { motion } from 'framer-motion';
 import { MapPin, Star, Check, Images } from 'lucide-react';
 import { FoodEntry } from '../types';
+import { StoredImage } from './StoredImage';
+import { Highlight } from './Highlight';
+import { WeatherBadge } from './WeatherIcon';
+import { formatShortDate } from '../utils/date';
+import { TemperatureUnit } from '../utils/weatherCodes';
 
 interface FoodCardProps {
   entry: FoodEntry;
@@ -11,6 +16,8 @@ interface FoodCardProps {
   layoutMode?: 'grid' | 'list';
   onClick: () => void;
   onLongPress?: () => void;
+  highlightQuery?: string; // Marks search matches in the text
+  temperatureUnit?: TemperatureUnit;
 }
 
 export const FoodCard: React.FC<FoodCardProps> = memo(({ 
@@ -20,7 +27,9 @@ export const FoodCard: React.FC<FoodCardProps> = memo(({
     isSelected = false,
     layoutMode = 'grid',
     onClick, 
-    onLongPress
+    onLongPress,
+    highlightQuery,
+    temperatureUnit = 'C'
 }) => {
   const timerRef = useRef<number | null>(null);
 
@@ -40,12 +49,10 @@ export const FoodCard: React.FC<FoodCardProps> = memo(({
     }
   };
 
-  // Determine which image to show
-  const displayImage = entry.images && entry.images.length > 0 
-    ? entry.images[entry.coverImageIndex || 0] 
-    : (entry as any).imageUrl; // Fallback for old data
+  // Determine which image to show (legacy shapes are migrated at load time)
+  const displayImage = entry.images[entry.coverImageIndex] ?? entry.images[0];
 
-  const hasMultipleImages = entry.images && entry.images.length > 1;
+  const hasMultipleImages = entry.images.length > 1;
 
   // Animation config for tap
   const tapAnimation = { 
@@ -75,13 +82,21 @@ export const FoodCard: React.FC<FoodCardProps> = memo(({
 
             {/* Enforce strict aspect ratio [3/4] for grid alignment */}
             <div className={`relative overflow-hidden rounded-[1.5rem] shadow-sm shadow-stone-200 transition-all duration-300 ease-out bg-stone-100 w-full aspect-[3/4] ${isSelected ? 'ring-2 ring-stone-800 ring-offset-2' : ''}`}>
-                <img 
+                <StoredImage 
                     src={displayImage} 
+                    variant="thumb"
                     alt={entry.title}
                     className="w-full h-full object-cover transform group-hover:scale-105 transition-transform duration-500 ease-in-out pointer-events-none"
                     loading="lazy"
                 />
                 
+                {/* Weather Badge */}
+                {entry.weather && (
+                    <div className="absolute bottom-2 left-2 z-10">
+                        <WeatherBadge weather={entry.weather} unit={temperatureUnit} className="bg-white/80 backdrop-blur-md px-2 py-1 rounded-full text-[10px] font-semibold text-stone-700 shadow-sm" />
+                    </div>
+                )}
+
                 {/* Rating Badge */}
                 <div className="absolute bottom-2 right-2 z-10">
                     <div className="bg-white/80 backdrop-blur-md px-2 py-1 rounded-full flex items-center gap-1 text-[10px] font-semibold text-stone-700 shadow-sm">
@@ -103,15 +118,16 @@ export const FoodCard: React.FC<FoodCardProps> = memo(({
 
             <div className="mt-3 px-1 flex-1">
                 <h3 className="serif text-sm font-semibold text-stone-800 tracking-wide line-clamp-1 mb-1">
-                    {entry.title}
+                    <Highlight text={entry.title} query={highlightQuery} />
                 </h3>
                 <div className="flex items-center text-stone-400 text-[10px] tracking-wide mb-1.5 gap-1">
-                    <MapPin size={10} />
-                    <span className="line-clamp-1">{entry.location}</span>
+                    <MapPin size={10} className="flex-shrink-0" />
+                    <span className="line-clamp-1"><Highlight text={entry.location} query={highlightQuery} /></span>
+                    <span className="ml-auto flex-shrink-0 text-stone-300">{formatShortDate(entry.eatenAt)}</span>
                 </div>
                 <div className="flex gap-1 flex-wrap">
                     {entry.tags.slice(0, 2).map((tag) => (
-                        <span key={tag} className="text-[9px] text-stone-500 bg-stone-100 px-1.5 py-0.5 rounded-md">{tag}</span>
+                        <span key={tag} className="text-[9px] text-stone-500 bg-stone-100 px-1.5 py-0.5 rounded-md"><Highlight text={tag} query={highlightQuery} /></span>
                     ))}
                 </div>
             </div>
@@ -140,8 +156,9 @@ export const FoodCard: React.FC<FoodCardProps> = memo(({
 
         {/* Thumbnail */}
         <div className="relative w-24 h-24 flex-shrink-0 rounded-2xl overflow-hidden bg-stone-100">
-             <img 
+             <StoredImage 
                 src={displayImage} 
+                variant="thumb"
                 alt={entry.title}
                 className="w-full h-full object-cover"
                 loading="lazy"
@@ -157,7 +174,7 @@ export const FoodCard: React.FC<FoodCardProps> = memo(({
         <div className="flex-1 min-w-0 pr-2">
             <div className="flex justify-between items-start mb-1">
                 <h3 className="serif text-sm font-semibold text-stone-800 tracking-wide line-clamp-1">
-                    {entry.title}
+                    <Highlight text={entry.title} query={highlightQuery} />
                 </h3>
                 <div className="flex items-center gap-1 text-[10px] font-semibold text-stone-700 bg-stone-50 px-1.5 py-0.5 rounded-md">
                     <Star size={8} className="fill-amber-400 text-amber-400" />
@@ -166,17 +183,19 @@ export const FoodCard: React.FC<FoodCardProps> = memo(({
             </div>
             
             <p className="text-[10px] text-stone-400 line-clamp-2 mb-2 leading-relaxed">
-                {entry.description}
+                <span className="text-stone-500 font-medium mr-1.5">{formatShortDate(entry.eatenAt)}</span>
+                <Highlight text={entry.description} query={highlightQuery} />
             </p>
 
             <div className="flex items-center justify-between">
                 <div className="flex items-center text-stone-400 text-[10px] gap-1">
                     <MapPin size={10} />
-                    <span className="line-clamp-1 max-w-[80px]">{entry.location}</span>
+                    <span className="line-clamp-1 max-w-[80px]"><Highlight text={entry.location} query={highlightQuery} /></span>
+                    {entry.weather && <WeatherBadge weather={entry.weather} unit={temperatureUnit} className="ml-1.5" />}
                 </div>
                 <div className="flex gap-1">
                     {entry.tags.slice(0, 2).map((tag) => (
-                        <span key={tag} className="text-[9px] text-stone-500 bg-stone-100 px-1.5 py-0.5 rounded-md">{tag}</span>
+                        <span key={tag} className="text-[9px] text-stone-500 bg-stone-100 px-1.5 py-0.5 rounded-md"><Highlight text={tag} query={highlightQuery} /></span>
                     ))}
                 </div>
             </div>
@@ -0,0 +1,24 @@
+import React, { useMemo } from 'react';
+import { highlightSegments } from '../services/search';
+
+interface HighlightProps {
+  text: string;
+  query?: string;
+}
+
+// Renders text with the parts matching the search query marked
+export const Highlight: React.FC<HighlightProps> = ({ text, query }) => {
+  const segments = useMemo(() => query ? highlightSegments(text, query) : null, [text, query]);
+
+  if (!segments) return <>{text}</>;
+
+  return (
+    <>
+      {segments.map((segment, i) => segment.match ? (
+        <mark key={i} className="bg-amber-100 text-stone-900 rounded-sm px-0.5 -mx-0.5">{segment.text}</mark>
+      ) : (
+        <React.Fragment key={i}>{segment.text}</React.Fragment>
+      ))}
+    </>
+  );
+};
@@ -0,0 +1,156 @@
+import React, { useMemo, useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, AlertTriangle, Download } from 'lucide-react';
+import { FoodEntry } from '../types';
+import { ParsedBackup, BackupPreferences, ConflictResolution, planImport, mergeImport } from '../services/backup';
+import { StoredImage } from './StoredImage';
+import { formatShortDate } from '../utils/date';
+
+interface ImportDialogProps {
+  backup: ParsedBackup | null;
+  existing: FoodEntry[];
+  onCancel: () => void;
+  onConfirm: (entries: FoodEntry[], tags: string[], preferences?: BackupPreferences) => void;
+}
+
+const RESOLUTION_LABELS: { value: ConflictResolution; label: string }[] = [
+  { value: 'mine', label: '保留本地' },
+  { value: 'theirs', label: '使用备份' },
+  { value: 'both', label: '都保留' }
+];
+
+const EntrySummary: React.FC<{ entry: FoodEntry; caption: string }> = ({ entry, caption }) => (
+  <div className="flex-1 min-w-0 flex items-center gap-2">
+    <StoredImage src={entry.images[entry.coverImageIndex]} variant="thumb" className="w-9 h-9 rounded-lg object-cover bg-stone-100 flex-shrink-0" />
+    <div className="min-w-0">
+      <div className="text-[9px] text-stone-400">{caption} · {formatShortDate(entry.updatedAt)}</div>
+      <div className="text-xs text-stone-700 truncate">{entry.title}</div>
+    </div>
+  </div>
+);
+
+export const ImportDialog: React.FC<ImportDialogProps> = ({ backup, existing, onCancel, onConfirm }) => {
+  const [resolutions, setResolutions] = useState<Record<string, ConflictResolution>>({});
+  const [applyPreferences, setApplyPreferences] = useState(false);
+
+  const plan = useMemo(() => backup ? planImport(existing, backup.entries) : null, [backup, existing]);
+
+  useEffect(() => {
+      setResolutions({});
+      setApplyPreferences(false);
+  }, [backup]);
+
+  const setAll = (resolution: ConflictResolution) => {
+      if (!plan) return;
+      setResolutions(Object.fromEntries(plan.conflicts.map(c => [c.theirs.id, resolution])));
+  };
+
+  const handleConfirm = () => {
+      if (!backup || !plan) return;
+      onConfirm(mergeImport(existing, plan, resolutions), backup.tags, applyPreferences ? backup.preferences : undefined);
+  };
+
+  return (
+    <AnimatePresence>
+        {backup && plan && (
+            <motion.div
+                initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}
+                className="fixed inset-0 z-[110] flex items-center justify-center bg-black/30 backdrop-blur-sm p-5"
+                onClick={onCancel}
+            >
+                <motion.div
+                    initial={{ scale: 0.95, y: 10 }} animate={{ scale: 1, y: 0 }} exit={{ scale: 0.95, opacity: 0 }}
+                    onClick={e => e.stopPropagation()}
+                    className="bg-white rounded-3xl shadow-2xl w-full max-w-md max-h-[80vh] flex flex-col"
+                >
+                    <div className="flex items-center justify-between p-5 pb-3">
+                        <div className="flex items-center gap-2">
+                            <Download size={16} className="text-stone-800" />
+                            <h3 className="text-sm font-semibold text-stone-800">导入备份</h3>
+                        </div>
+                        <button onClick={onCancel} className="w-8 h-8 flex items-center justify-center rounded-full bg-stone-100 text-stone-500 hover:bg-stone-200"><X size={16} /></button>
+                    </div>
+
+                    <div className="flex-1 overflow-y-auto px-5 space-y-4">
+                        <div className="grid grid-cols-3 gap-2 text-center">
+                            {[
+                                { label: '新增', value: plan.additions.length },
+                                { label: '冲突', value: plan.conflicts.length },
+                                { label: '相同', value: plan.unchanged }
+                            ].map(item => (
+                                <div key={item.label} className="bg-stone-50 rounded-2xl py-2.5">
+                                    <div className="serif text-lg text-stone-800">{item.value}</div>
+                                    <div className="text-[9px] text-stone-400 tracking-widest">{item.label}</div>
+                                </div>
+                            ))}
+                        </div>
+
+                        {backup.invalid.length > 0 && (
+                            <div className="flex items-start gap-2 p-3 rounded-2xl bg-amber-50 text-amber-700 text-[11px] leading-relaxed">
+                                <AlertTriangle size={14} className="flex-shrink-0 mt-0.5" />
+                                <span>{backup.invalid.length} 条记录格式无效，将被跳过</span>
+                            </div>
+                        )}
+
+                        {backup.missingImages > 0 && (
+                            <div className="flex items-start gap-2 p-3 rounded-2xl bg-amber-50 text-amber-700 text-[11px] leading-relaxed">
+                                <AlertTriangle size={14} className="flex-shrink-0 mt-0.5" />
+                                <span>{backup.missingImages} 张照片未包含在文件中，将以占位图代替</span>
+                            </div>
+                        )}
+
+                        {plan.conflicts.length > 0 && (
+                            <div>
+                                <div className="flex items-center justify-between mb-2">
+                                    <h4 className="text-[10px] font-bold text-stone-400 uppercase tracking-widest">处理冲突</h4>
+                                    <div className="flex gap-1">
+                                        {RESOLUTION_LABELS.map(r => (
+                                            <button key={r.value} onClick={() => setAll(r.value)} className="text-[9px] text-stone-400 hover:text-stone-700 px-1.5">全部{r.label}</button>
+                                        ))}
+                                    </div>
+                                </div>
+                                <div className="space-y-2">
+                                    {plan.conflicts.map(({ mine, theirs }) => {
+                                        const current = resolutions[theirs.id] || 'mine';
+                                        return (
+                                            <div key={theirs.id} className="p-3 rounded-2xl border border-stone-100 space-y-2">
+                                                <div className="flex gap-3">
+                                                    <EntrySummary entry={mine} caption="本地" />
+                                                    <EntrySummary entry={theirs} caption="备份" />
+                                                </div>
+                                                <div className="flex bg-stone-100 rounded-full p-0.5">
+                                                    {RESOLUTION_LABELS.map(r => (
+                                                        <button
+                                                            key={r.value}
+                                                            onClick={() => setResolutions(prev => ({ ...prev, [theirs.id]: r.value }))}
+                                                            className={`flex-1 py-1 rounded-full text-[10px] transition-colors ${current === r.value ? 'bg-white text-stone-800 shadow-sm' : 'text-stone-400'}`}
+                                                        >
+                                                            {r.label}
+                                                        </button>
+                                                    ))}
+                                                </div>
+                                            </div>
+                                        );
+                                    })}
+                                </div>
+                            </div>
+                        )}
+
+                        {Object.keys(backup.preferences).length > 0 && (
+                            <label className="flex items-center justify-between py-1 cursor-pointer">
+                                <span className="text-xs text-stone-600">同时导入布局与筛选偏好</span>
+                                <input type="checkbox" checked={applyPreferences} onChange={e => setApplyPreferences(e.target.checked)} className="w-4 h-4 accent-stone-800" />
+                            </label>
+                        )}
+                    </div>
+
+                    <div className="flex gap-3 p-5">
+                        <button onClick={onCancel} className="flex-1 py-2.5 text-xs font-medium text-stone-500 bg-stone-100 rounded-xl">取消</button>
+                        <button onClick={handleConfirm} className="flex-1 py-2.5 text-xs font-medium text-white bg-stone-800 rounded-xl hover:bg-stone-900">确认导入</button>
+                    </div>
+                </motion.div>
+            </motion.div>
+        )}
+    </AnimatePresence>
+  );
+};
@@ -1,168 +1,124 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { MapPin, Navigation, Search, X, Loader2, Building2, Pencil, Map } from 'lucide-react';
+import { Place } from '../types';
+import { LngLat } from '../utils/geo';
+import { normalizePlace } from '../services/places';
+import { MapHandle, getMapProvider } from '../services/mapProvider';
 
 interface LocationPickerProps {
   value: string;
-  onChange: (location: string) => void;
+  onChange: (place: Place) => void;
+  coords?: LngLat | null; // Suggested position (GCJ-02), e.g. from photo metadata; opens the picker there
 }
 
-// AMap Types (Simplified for TS)
-declare global {
-  interface Window {
-    AMap: any;
-  }
-}
-
-export const LocationPicker: React.FC<LocationPickerProps> = ({ value, onChange }) => {
+export const LocationPicker: React.FC<LocationPickerProps> = ({ value, onChange, coords }) => {
   const [isOpen, setIsOpen] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
   const [isLocating, setIsLocating] = useState(false);
-  const [searchResults, setSearchResults] = useState<any[]>([]);
+  const [searchResults, setSearchResults] = useState<Place[]>([]);
+  const [mapStatus, setMapStatus] = useState<'loading' | 'ready' | 'unavailable'>('loading');
   
+  const provider = getMapProvider();
   const mapContainerRef = useRef<HTMLDivElement>(null);
-  const mapInstanceRef = useRef<any>(null);
-  const placeSearchRef = useRef<any>(null);
-  const markerRef = useRef<any>(null);
-  const geocoderRef = useRef<any>(null);
+  const mapRef = useRef<MapHandle | null>(null);
+  const coordsRef = useRef(coords);
+  coordsRef.current = coords;
+  // Details of the point last picked on the map, attached to a manually named place
+  const pickedRef = useRef<Omit<Place, 'name'> | null>(null);
+
+  const showPoint = (point: LngLat) => {
+      mapRef.current?.setMarker(point);
+      mapRef.current?.setCenter(point);
+  };
 
-  // Initialize AMap when modal opens
-  useEffect(() => {
-    if (isOpen && !mapInstanceRef.current) {
-        // Simple polling to ensure AMap is loaded
-        const initMap = () => {
-            if (window.AMap && mapContainerRef.current) {
-                try {
-                    mapInstanceRef.current = new window.AMap.Map(mapContainerRef.current, {
-                        zoom: 15,
-                        resizeEnable: true,
-                        viewMode: '2D', // Use 2D for better compatibility
-                        mapStyle: "amap://styles/whitesmoke" // Clean style
-                    });
+  // Names the picked point after what the provider finds there
+  const pickPoint = (point: LngLat) => {
+      showPoint(point);
+      pickedRef.current = { ...point, provider: provider.id };
+      provider.reverseGeocode(point)
+        .then(place => {
+            if (!place) return;
+            const { name, ...details } = place;
+            pickedRef.current = details;
+            setSearchTerm(name);
+        })
+        .catch(e => console.warn("Reverse geocoding failed", e));
+  };
 
-                    // Init Plugins
-                    window.AMap.plugin(['AMap.PlaceSearch', 'AMap.Geolocation', 'AMap.Geocoder', 'AMap.AutoComplete'], function(){
-                        placeSearchRef.current = new window.AMap.PlaceSearch({
-                            pageSize: 5,
-                            pageIndex: 1,
-                            extensions: 'all'
-                        });
-                        
-                        geocoderRef.current = new window.AMap.Geocoder({
-                            city: "010", 
-                            radius: 1000 
-                        });
-                    });
+  // A new suggested position opens the picker centred on it
+  useEffect(() => {
+      if (!coords) return;
+      setIsOpen(true);
+      if (mapRef.current) pickPoint(coords);
+  }, [coords]);
 
-                    // Click map to pick location
-                    mapInstanceRef.current.on('click', (e: any) => {
-                        const { lng, lat } = e.lnglat;
-                        updateMarker(lng, lat);
-                        // Reverse Geocode
-                        if(geocoderRef.current) {
-                            geocoderRef.current.getAddress([lng, lat], function(status: string, result: any) {
-                                if (status === 'complete' && result.regeocode) {
-                                    const address = result.regeocode.formattedAddress;
-                                    // Try to get a POI
-                                    const pois = result.regeocode.pois;
-                                    let name = address;
-                                    if(pois && pois.length > 0) {
-                                        name = pois[0].name;
-                                    }
-                                    setSearchTerm(name);
-                                }
-                            });
-                        }
-                    });
-                } catch (error) {
-                    console.error("Map Init Error:", error);
-                }
-            } else {
-               // Retry shortly if AMap not ready
-               setTimeout(initMap, 500);
-            }
-        };
-        
-        // Small delay to ensure DOM is rendered by AnimatePresence
-        setTimeout(initMap, 100);
-    }
+  // Create the map while the modal is open
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    setMapStatus('loading');
+    provider.ready()
+      .then(() => {
+          if (cancelled) return;
+          if (!provider.createMap || !mapContainerRef.current) {
+              setMapStatus('unavailable');
+              return;
+          }
+          mapRef.current = provider.createMap(mapContainerRef.current);
+          mapRef.current.onClick(pickPoint);
+          setMapStatus('ready');
+          if (coordsRef.current) pickPoint(coordsRef.current);
+      })
+      .catch(error => {
+          console.error("Map Init Error:", error);
+          if (!cancelled) setMapStatus('unavailable');
+      });
+    return () => {
+        cancelled = true;
+        mapRef.current?.destroy();
+        mapRef.current = null;
+    };
   }, [isOpen]);
 
-  const updateMarker = (lng: number, lat: number) => {
-      if(!mapInstanceRef.current || !window.AMap) return;
-      
-      if(markerRef.current) {
-          markerRef.current.setPosition([lng, lat]);
-      } else {
-          markerRef.current = new window.AMap.Marker({
-              position: new window.AMap.LngLat(lng, lat),
-              anchor: 'bottom-center'
-          });
-          mapInstanceRef.current.add(markerRef.current);
-      }
-      mapInstanceRef.current.setCenter([lng, lat]);
-  };
-
   // Search
   useEffect(() => {
+      let cancelled = false;
       const delayDebounceFn = setTimeout(() => {
-          if (searchTerm.length > 0 && placeSearchRef.current) {
-               placeSearchRef.current.search(searchTerm, (status: string, result: any) => {
-                   if(status === 'complete' && result.info === 'OK') {
-                       setSearchResults(result.poiList.pois);
-                   } else {
-                       setSearchResults([]);
-                   }
-               });
+          if (searchTerm.length > 0) {
+              provider.searchPlaces(searchTerm)
+                .then(results => { if (!cancelled) setSearchResults(results); })
+                .catch(e => {
+                    console.warn("Place search failed", e);
+                    if (!cancelled) setSearchResults([]);
+                });
           } else {
               setSearchResults([]);
           }
       }, 500);
-      return () => clearTimeout(delayDebounceFn);
+      return () => {
+          cancelled = true;
+          clearTimeout(delayDebounceFn);
+      };
   }, [searchTerm]);
 
-  const handleGetCurrentLocation = () => {
+  const handleGetCurrentLocation = async () => {
     setIsLocating(true);
-    if (!window.AMap) {
-        alert("地图加载中，请稍候...");
+    try {
+        const { position, place } = await provider.currentPosition();
+        showPoint(position);
+        const { name, ...details } = place;
+        pickedRef.current = details;
+        setSearchTerm(name);
+    } catch (error) {
+        alert(error instanceof Error ? error.message : "定位失败");
+    } finally {
         setIsLocating(false);
-        return;
     }
-
-    // Ensure Geolocation plugin is loaded
-    window.AMap.plugin('AMap.Geolocation', function() {
-        const geolocation = new window.AMap.Geolocation({
-            enableHighAccuracy: true,
-            timeout: 10000,
-            zoomToAccuracy: true
-        });
-
-        geolocation.getCurrentPosition(function(status: string, result: any){
-            setIsLocating(false);
-            if(status === 'complete'){
-                const { lng, lat } = result.position;
-                updateMarker(lng, lat);
-                // Format address
-                const name = result.formattedAddress || "我的位置";
-                let shortName = name;
-                if(result.addressComponent) {
-                    const { district, township, street } = result.addressComponent;
-                    shortName = (district || "") + " · " + (street || township || "当前位置");
-                }
-                setSearchTerm(shortName);
-            } else {
-                console.error(result);
-                alert("定位失败 (请确保使用HTTPS或本地环境)");
-            }
-        });
-    });
   };
 
-  const confirmLocation = (name: string, location?: any) => {
-      onChange(name);
-      if(location && mapInstanceRef.current) {
-          updateMarker(location.lng, location.lat);
-      }
+  const confirmPlace = (place: Place) => {
+      onChange(normalizePlace(place));
       setIsOpen(false);
   };
 
@@ -217,9 +173,15 @@ export const LocationPicker: React.FC<LocationPickerProps> = ({ value, onChange
                     exit={{ opacity: 0 }}
                     className="flex-1 relative overflow-hidden flex flex-col"
                 >
-                    {/* AMap Container - Explicit Height is crucial */}
+                    {/* Map Container - Explicit Height is crucial */}
                     <div className="h-[40vh] w-full bg-stone-200 relative">
                         <div ref={mapContainerRef} className="w-full h-full" />
+                        {mapStatus !== 'ready' && (
+                            <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 text-stone-400">
+                                {mapStatus === 'loading' ? <Loader2 size={20} className="animate-spin" /> : <Map size={24} />}
+                                {mapStatus === 'unavailable' && <p className="text-[10px] tracking-wider">地图暂时无法加载，仍可搜索或定位</p>}
+                            </div>
+                        )}
                         
                         {/* Locate Button */}
                         <button
@@ -239,7 +201,7 @@ export const LocationPicker: React.FC<LocationPickerProps> = ({ value, onChange
                              {/* Manual Entry Option */}
                              {searchTerm.trim().length > 0 && (
                                 <button 
-                                    onClick={() => confirmLocation(searchTerm)}
+                                    onClick={() => confirmPlace({ ...pickedRef.current, name: searchTerm.trim() })}
                                     className="w-full text-left p-4 rounded-2xl bg-amber-50 hover:bg-amber-100 transition-colors flex items-center gap-3 border border-amber-100 shadow-sm mb-4"
                                 >
                                     <div className="w-10 h-10 flex-shrink-0 rounded-full flex items-center justify-center bg-amber-100 text-amber-600">
@@ -257,7 +219,7 @@ export const LocationPicker: React.FC<LocationPickerProps> = ({ value, onChange
                              {searchResults.map((result, i) => (
                                 <button 
                                     key={i}
-                                    onClick={() => confirmLocation(result.name, result.location)}
+                                    onClick={() => confirmPlace(result)}
                                     className="w-full text-left p-4 rounded-2xl hover:bg-stone-50 transition-colors flex items-center gap-3 border-b border-stone-50 last:border-0"
                                 >
                                     <div className={`w-10 h-10 flex-shrink-0 rounded-full flex items-center justify-center bg-stone-100 text-stone-500`}>
@@ -268,7 +230,7 @@ export const LocationPicker: React.FC<LocationPickerProps> = ({ value, onChange
                                             {result.name}
                                         </div>
                                         <div className="text-xs text-stone-400 mt-0.5 line-clamp-1">
-                                            {result.address || result.type}
+                                            {result.address || result.city}
                                         </div>
                                     </div>
                                 </button>
@@ -277,7 +239,7 @@ export const LocationPicker: React.FC<LocationPickerProps> = ({ value, onChange
                              {/* Default Empty State */}
                              {searchResults.length === 0 && searchTerm.length === 0 && (
                                  <div className="text-center py-10 text-stone-300">
-                                     <p className="text-xs tracking-widest mb-2">高德地图 · 精准搜索</p>
+                                     <p className="text-xs tracking-widest mb-2">{provider.name} · 精准搜索</p>
                                      <p className="text-[10px] text-stone-200">输入关键词或点击地图选点</p>
                                  </div>
                              )}
@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { X, BookText } from 'lucide-react';
+import { PublishOptions, PublishGrouping, DEFAULT_PUBLISH_OPTIONS } from '../services/publish';
+
+interface PublishDialogProps {
+  isOpen: boolean;
+  onCancel: () => void;
+  onConfirm: (options: PublishOptions) => void;
+}
+
+const GROUPINGS: { value: PublishGrouping; label: string }[] = [
+  { value: 'month', label: '按月份' },
+  { value: 'tag', label: '按标签' }
+];
+
+export const PublishDialog: React.FC<PublishDialogProps> = ({ isOpen, onCancel, onConfirm }) => {
+  const [options, setOptions] = useState<PublishOptions>(DEFAULT_PUBLISH_OPTIONS);
+
+  const toggle = (key: 'markdown' | 'html') => setOptions(prev => ({ ...prev, [key]: !prev[key] }));
+
+  return (
+    <AnimatePresence>
+        {isOpen && (
+            <motion.div
+                initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}
+                className="fixed inset-0 z-[110] flex items-center justify-center bg-black/30 backdrop-blur-sm p-5"
+                onClick={onCancel}
+            >
+                <motion.div
+                    initial={{ scale: 0.95, y: 10 }} animate={{ scale: 1, y: 0 }} exit={{ scale: 0.95, opacity: 0 }}
+                    onClick={e => e.stopPropagation()}
+                    className="bg-white rounded-3xl shadow-2xl w-full max-w-sm"
+                >
+                    <div className="flex items-center justify-between p-5 pb-3">
+                        <div className="flex items-center gap-2">
+                            <BookText size={16} className="text-stone-800" />
+                            <h3 className="text-sm font-semibold text-stone-800">导出为笔记 / 网页</h3>
+                        </div>
+                        <button onClick={onCancel} className="w-8 h-8 flex items-center justify-center rounded-full bg-stone-100 text-stone-500 hover:bg-stone-200"><X size={16} /></button>
+                    </div>
+
+                    <div className="px-5 space-y-3">
+                        <label className="flex items-center justify-between py-1 cursor-pointer">
+                            <div>
+                                <div className="text-xs text-stone-700">Markdown 笔记</div>
+                                <div className="text-[10px] text-stone-400">每条记录一个 .md 文件，含 front matter</div>
+                            </div>
+                            <input type="checkbox" checked={options.markdown} onChange={() => toggle('markdown')} className="w-4 h-4 accent-stone-800" />
+                        </label>
+                        <label className="flex items-center justify-between py-1 cursor-pointer">
+                            <div>
+                                <div className="text-xs text-stone-700">静态网页</div>
+                                <div className="text-[10px] text-stone-400">单页 index.html，可直接发布</div>
+                            </div>
+                            <input type="checkbox" checked={options.html} onChange={() => toggle('html')} className="w-4 h-4 accent-stone-800" />
+                        </label>
+
+                        {options.html && (
+                            <div className="flex bg-stone-100 rounded-full p-0.5">
+                                {GROUPINGS.map(g => (
+                                    <button
+                                        key={g.value}
+                                        onClick={() => setOptions(prev => ({ ...prev, groupBy: g.value }))}
+                                        className={`flex-1 py-1 rounded-full text-[10px] transition-colors ${options.groupBy === g.value ? 'bg-white text-stone-800 shadow-sm' : 'text-stone-400'}`}
+                                    >
+                                        {g.label}
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+
+                    <div className="flex gap-3 p-5">
+                        <button onClick={onCancel} className="flex-1 py-2.5 text-xs font-medium text-stone-500 bg-stone-100 rounded-xl">取消</button>
+                        <button
+                            onClick={() => onConfirm(options)}
+                            disabled={!options.markdown && !options.html}
+                            className="flex-1 py-2.5 text-xs font-medium text-white bg-stone-800 rounded-xl hover:bg-stone-900 disabled:opacity-40"
+                        >
+                            导出
+                        </button>
+                    </div>
+                </motion.div>
+            </motion.div>
+        )}
+    </AnimatePresence>
+  );
+};
@@ -0,0 +1,46 @@
+import React from 'react';
+import { Star } from 'lucide-react';
+import { MAX_RATING, roundToHalf } from '../services/ratings';
+
+interface StarRatingProps {
+  value: number;
+  onChange?: (value: number) => void; // Omit for a read-only display
+  size?: number;
+  className?: string;
+}
+
+const STARS = Array.from({ length: MAX_RATING }, (_, i) => i + 1);
+
+/**
+ * Five stars in half steps. When editable, each star has a left and right
+ * hit area; tapping the current value again clears it.
+ */
+export const StarRating: React.FC<StarRatingProps> = ({ value, onChange, size = 22, className = '' }) => {
+  const shown = roundToHalf(value);
+
+  const pick = (next: number) => onChange?.(next === shown ? 0 : next);
+
+  return (
+    <div className={`inline-flex items-center gap-1.5 ${className}`}>
+      {STARS.map(star => {
+        const fill = shown >= star ? 1 : shown >= star - 0.5 ? 0.5 : 0;
+        return (
+          <span key={star} className={`relative inline-block ${onChange ? 'transform transition-transform hover:scale-110 active:scale-90' : ''}`} style={{ width: size, height: size }}>
+            <Star size={size} strokeWidth={1.5} className="absolute inset-0 text-stone-300 fill-stone-100" />
+            {fill > 0 && (
+              <span className="absolute inset-0 overflow-hidden" style={{ width: fill === 1 ? size : size / 2 }}>
+                <Star size={size} strokeWidth={1.5} className="fill-amber-400 text-amber-400" />
+              </span>
+            )}
+            {onChange && (
+              <>
+                <button type="button" aria-label={`${star - 0.5} 星`} onClick={() => pick(star - 0.5)} className="absolute inset-y-0 left-0 w-1/2 focus:outline-none" />
+                <button type="button" aria-label={`${star} 星`} onClick={() => pick(star)} className="absolute inset-y-0 right-0 w-1/2 focus:outline-none" />
+              </>
+            )}
+          </span>
+        );
+      })}
+    </div>
+  );
+};
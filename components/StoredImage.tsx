@@ -0,0 +1,31 @@
+import React, { useState, useEffect } from 'react';
+import { ImageVariant, isImageRef, peekImageUrl, resolveImageUrl } from '../services/storage';
+
+// Resolves `idb:` image refs to object URLs; plain URLs pass straight through
+export const useImageSrc = (src?: string, variant: ImageVariant = 'full'): string | undefined => {
+  const [resolved, setResolved] = useState<string | undefined>(() => isImageRef(src) ? peekImageUrl(src, variant) : src);
+
+  useEffect(() => {
+    if (!isImageRef(src)) {
+      setResolved(src);
+      return;
+    }
+
+    let cancelled = false;
+    setResolved(peekImageUrl(src, variant));
+    resolveImageUrl(src, variant)
+      .then(url => { if (!cancelled) setResolved(url); })
+      .catch(e => console.warn("Image load failed", e));
+    return () => { cancelled = true; };
+  }, [src, variant]);
+
+  return resolved;
+};
+
+type StoredImageProps = Omit<React.ImgHTMLAttributes<HTMLImageElement>, 'src'> & { src?: string; variant?: ImageVariant };
+
+// Drop-in <img> replacement for entry images; use the `thumb` variant for small previews
+export const StoredImage: React.FC<StoredImageProps> = ({ src, variant, ...props }) => {
+  const resolved = useImageSrc(src, variant);
+  return resolved ? <img src={resolved} {...props} /> : <div className={props.className} />;
+};
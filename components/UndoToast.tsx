@@ -0,0 +1,52 @@
+import React, { useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Undo2, Redo2 } from 'lucide-react';
+
+export interface ToastMessage {
+  id: number;
+  message: string;
+  action: 'undo' | 'redo';
+}
+
+interface UndoToastProps {
+  toast: ToastMessage | null;
+  onAction: (action: 'undo' | 'redo') => void;
+  onDismiss: () => void;
+}
+
+const TOAST_DURATION = 5000;
+
+export const UndoToast: React.FC<UndoToastProps> = ({ toast, onAction, onDismiss }) => {
+  useEffect(() => {
+      if (!toast) return;
+      const timer = setTimeout(onDismiss, TOAST_DURATION);
+      return () => clearTimeout(timer);
+  }, [toast?.id]);
+
+  const Icon = toast?.action === 'redo' ? Redo2 : Undo2;
+
+  return (
+    <AnimatePresence>
+        {toast && (
+            <motion.div
+                key={toast.id}
+                initial={{ opacity: 0, y: 20, scale: 0.95 }}
+                animate={{ opacity: 1, y: 0, scale: 1 }}
+                exit={{ opacity: 0, y: 20, scale: 0.95 }}
+                className="fixed bottom-28 left-0 right-0 z-[90] flex justify-center px-5 pointer-events-none"
+            >
+                <div className="pointer-events-auto flex items-center gap-4 pl-5 pr-2 py-2 rounded-full bg-stone-900/90 backdrop-blur-md text-white shadow-2xl max-w-full">
+                    <span className="text-xs truncate">{toast.message}</span>
+                    <button
+                        onClick={() => onAction(toast.action)}
+                        className="flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-white/10 hover:bg-white/20 text-xs font-medium text-amber-200 transition-colors flex-shrink-0"
+                    >
+                        <Icon size={12} />
+                        {toast.action === 'redo' ? '重做' : '撤销'}
+                    </button>
+                </div>
+            </motion.div>
+        )}
+    </AnimatePresence>
+  );
+};
@@ -0,0 +1,76 @@
+import React, { useMemo, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Store, Check } from 'lucide-react';
+import { FoodEntry, Venue } from '../types';
+import { priceLabel, suggestVenues, visitCounts } from '../services/venues';
+
+interface VenueAutocompleteProps {
+  venues: Venue[];
+  entries: FoodEntry[]; // For ranking by visit count
+  selectedId?: string;
+  onSelect: (venue: Venue) => void;
+}
+
+/** Picks a previously visited venue; an empty query lists the most visited ones. */
+export const VenueAutocomplete: React.FC<VenueAutocompleteProps> = ({ venues, entries, selectedId, onSelect }) => {
+  const [query, setQuery] = useState('');
+  const [isOpen, setIsOpen] = useState(false);
+
+  const counts = useMemo(() => visitCounts(entries), [entries]);
+  const suggestions = useMemo(() => suggestVenues(venues, entries, query), [venues, entries, query]);
+  const selected = venues.find(v => v.id === selectedId);
+
+  const pick = (venue: Venue) => {
+      onSelect(venue);
+      setQuery('');
+      setIsOpen(false);
+  };
+
+  if (venues.length === 0) return null;
+
+  return (
+    <div className="relative mt-2">
+      <div className="relative">
+        <input
+            type="text"
+            value={query}
+            onChange={e => { setQuery(e.target.value); setIsOpen(true); }}
+            onFocus={() => setIsOpen(true)}
+            onBlur={() => setIsOpen(false)}
+            placeholder={selected ? `已关联：${selected.name}` : '从去过的店里选...'}
+            className="w-full bg-white/30 border border-stone-200/50 rounded-2xl pl-11 pr-5 py-2 text-xs text-stone-700 placeholder-stone-400 focus:outline-none focus:bg-white/80 focus:border-stone-300 transition-all duration-300"
+        />
+        <Store size={14} className="absolute left-4 top-1/2 -translate-y-1/2 text-stone-400" />
+      </div>
+
+      <AnimatePresence>
+        {isOpen && suggestions.length > 0 && (
+            <motion.div
+                initial={{ opacity: 0, y: -4 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, y: -4 }}
+                className="absolute left-0 right-0 top-full mt-1 z-30 bg-white rounded-2xl shadow-lg border border-stone-100 overflow-hidden"
+            >
+                {suggestions.map(venue => (
+                    <button
+                        key={venue.id}
+                        // mousedown fires before the input's blur closes the list
+                        onMouseDown={e => { e.preventDefault(); pick(venue); }}
+                        className="flex items-center gap-3 w-full px-4 py-2.5 text-left hover:bg-stone-50 transition-colors"
+                    >
+                        <div className="flex-1 min-w-0">
+                            <div className="text-xs text-stone-700 truncate">{venue.name}</div>
+                            <div className="text-[10px] text-stone-400 truncate">
+                                {[venue.cuisine, venue.priceLevel && priceLabel(venue.priceLevel), venue.address].filter(Boolean).join(' · ')}
+                            </div>
+                        </div>
+                        <span className="text-[10px] text-stone-400 flex-shrink-0">{counts.get(venue.id) ?? 0} 次</span>
+                        {venue.id === selectedId && <Check size={12} className="text-stone-600 flex-shrink-0" />}
+                    </button>
+                ))}
+            </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
@@ -0,0 +1,63 @@
+import React from 'react';
+import { Sun, Moon, CloudSun, CloudMoon, Cloud, CloudFog, CloudDrizzle, CloudRain, CloudSnow, CloudLightning } from 'lucide-react';
+import { WeatherInfo } from '../types';
+import { TemperatureUnit, WeatherGroup, formatTemperature, weatherGroup, weatherLabel } from '../utils/weatherCodes';
+
+// One entry per weather group: the code used for manual picks and filters,
+// plus the icon and colours every weather display shares.
+export const WEATHER_TYPES: { group: WeatherGroup; code: number; label: string; icon: React.ElementType; color: string; hex: string }[] = [
+  { group: 'clear', code: 0, label: '晴朗', icon: Sun, color: 'text-amber-500', hex: '#F59E0B' },
+  { group: 'partly', code: 2, label: '多云', icon: CloudSun, color: 'text-stone-500', hex: '#78716C' },
+  { group: 'cloudy', code: 3, label: '阴天', icon: Cloud, color: 'text-stone-400', hex: '#A8A29E' },
+  { group: 'fog', code: 45, label: '雾', icon: CloudFog, color: 'text-slate-400', hex: '#94A3B8' },
+  { group: 'drizzle', code: 53, label: '毛毛雨', icon: CloudDrizzle, color: 'text-sky-500', hex: '#0EA5E9' },
+  { group: 'rain', code: 61, label: '下雨', icon: CloudRain, color: 'text-blue-500', hex: '#3B82F6' },
+  { group: 'snow', code: 71, label: '下雪', icon: CloudSnow, color: 'text-cyan-500', hex: '#06B6D4' },
+  { group: 'thunder', code: 95, label: '雷雨', icon: CloudLightning, color: 'text-purple-500', hex: '#A855F7' }
+];
+
+export const weatherType = (code: number) => WEATHER_TYPES.find(t => t.group === weatherGroup(code))!;
+
+// Clear and partly cloudy skies look different after dark
+const NIGHT_ICONS: Partial<Record<WeatherGroup, React.ElementType>> = { clear: Moon, partly: CloudMoon };
+
+interface WeatherIconProps {
+  code: number;
+  isDay?: boolean;
+  size?: number;
+  className?: string; // Replaces the group colour
+}
+
+export const WeatherIcon: React.FC<WeatherIconProps> = ({ code, isDay, size = 16, className }) => {
+  const type = weatherType(code);
+  const Icon = (isDay === false && NIGHT_ICONS[type.group]) || type.icon;
+  return <Icon size={size} className={className ?? (isDay === false && NIGHT_ICONS[type.group] ? 'text-indigo-400' : type.color)} />;
+};
+
+/** Secondary readings ("体感 22° · 湿度 60% · 风速 12 km/h"), or '' when none were recorded. */
+export const weatherDetails = (weather: WeatherInfo, unit: TemperatureUnit): string => {
+  const parts: string[] = [];
+  if (weather.feelsLike !== undefined) parts.push(`体感 ${formatTemperature(weather.feelsLike, unit, false)}`);
+  if (weather.humidity !== undefined) parts.push(`湿度 ${Math.round(weather.humidity)}%`);
+  if (weather.windSpeed !== undefined) parts.push(`风速 ${Math.round(weather.windSpeed)} km/h`);
+  return parts.join(' · ');
+};
+
+interface WeatherBadgeProps {
+  weather: WeatherInfo;
+  unit: TemperatureUnit;
+  showLabel?: boolean;
+  className?: string;
+}
+
+/** Compact icon + temperature chip, as shown on cards and the detail page. */
+export const WeatherBadge: React.FC<WeatherBadgeProps> = ({ weather, unit, showLabel = false, className = '' }) => {
+  const label = weatherLabel(weather.code, weather.condition);
+  return (
+    <span title={[label, weatherDetails(weather, unit)].filter(Boolean).join(' · ')} className={`inline-flex items-center gap-1 ${className}`}>
+      <WeatherIcon code={weather.code} isDay={weather.isDay} size={10} />
+      {showLabel && <span>{label}</span>}
+      <span>{formatTemperature(weather.temperature, unit, false)}</span>
+    </span>
+  );
+};
@@ -1,130 +1,48 @@
 import React, { useState, useEffect } from 'react';
-import { Sun, Cloud, CloudRain, CloudSnow, CloudLightning, Wind, Loader2, Thermometer, ChevronDown, MapPin, RefreshCcw } from 'lucide-react';
+import { Sun, Loader2, RefreshCcw } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { WeatherInfo } from '../types';
+import { Place, WeatherInfo } from '../types';
+import { WEATHER_TYPES, WeatherIcon, weatherDetails } from './WeatherIcon';
+import { cachedWeather, resolveWeather } from '../services/weather';
+import { TemperatureUnit, fromFahrenheit, toFahrenheit, weatherGroup, weatherLabel } from '../utils/weatherCodes';
 
 interface WeatherWidgetProps {
   value?: WeatherInfo;
   onChange: (weather: WeatherInfo) => void;
+  at: Date; // When the meal happened; weather is looked up for that hour
+  place?: Place; // Where it happened; falls back to the current position
+  unit: TemperatureUnit; // Display/input unit; values are always stored in °C
 }
 
-const WEATHER_TYPES = [
-  { code: 0, label: '晴朗', icon: Sun, color: 'text-amber-500' },
-  { code: 1, label: '多云', icon: Cloud, color: 'text-stone-500' },
-  { code: 61, label: '下雨', icon: CloudRain, color: 'text-blue-500' },
-  { code: 71, label: '下雪', icon: CloudSnow, color: 'text-cyan-500' },
-  { code: 95, label: '雷雨', icon: CloudLightning, color: 'text-purple-500' },
-  { code: 3, label: '阴天', icon: Wind, color: 'text-stone-400' },
-];
-
-// Helper to map AMap weather string to our code
-const mapAMapWeatherToCode = (weather: string): number => {
-    if(!weather) return 1;
-    if(weather.includes('晴')) return 0;
-    if(weather.includes('多云')) return 1;
-    if(weather.includes('阴')) return 3;
-    if(weather.includes('雨') && weather.includes('雷')) return 95;
-    if(weather.includes('雨')) return 61;
-    if(weather.includes('雪')) return 71;
-    return 1; // Default
-};
-
-const CACHE_KEY = 'gourmet_weather_cache_amap';
-const CACHE_DURATION = 30 * 60 * 1000; // 30 minutes
-
-export const WeatherWidget: React.FC<WeatherWidgetProps> = ({ value, onChange }) => {
+export const WeatherWidget: React.FC<WeatherWidgetProps> = ({ value, onChange, at, place, unit }) => {
   const [loading, setLoading] = useState(false);
   const [showSelector, setShowSelector] = useState(false);
 
-  // Auto-load cache
+  // Fill in from the cache when the entry's hour and place were looked up before
   useEffect(() => {
-    if (!value) {
-        try {
-            const cached = localStorage.getItem(CACHE_KEY);
-            if (cached) {
-                const { timestamp, data } = JSON.parse(cached);
-                if (Date.now() - timestamp < CACHE_DURATION) {
-                    onChange(data);
-                }
-            }
-        } catch (e) {
-            console.warn("Weather cache read failed", e);
-        }
-    }
-  }, []);
+    if (value) return;
+    let cancelled = false;
+    cachedWeather({ at, place }).then(data => {
+        if (data && !cancelled) onChange(data);
+    });
+    return () => { cancelled = true; };
+  }, [at.getTime(), place?.lng, place?.lat]);
 
-  const fetchWeather = (forceRefresh = false) => {
+  const fetchWeather = async () => {
     setLoading(true);
-    
-    // Check cache
-    if (!forceRefresh) {
-        try {
-            const cached = localStorage.getItem(CACHE_KEY);
-            if (cached) {
-                const { timestamp, data } = JSON.parse(cached);
-                if (Date.now() - timestamp < CACHE_DURATION) {
-                    onChange(data);
-                    setLoading(false);
-                    return;
-                }
-            }
-        } catch (e) { }
-    }
-
-    if (!window.AMap) {
-        alert("地图服务加载中，请稍后...");
+    try {
+        onChange(await resolveWeather({ at, place }));
+    } catch (error) {
+        console.error(error);
+        alert(error instanceof Error ? error.message : "天气查询失败");
+    } finally {
         setLoading(false);
-        return;
     }
-
-    window.AMap.plugin(['AMap.Weather', 'AMap.Geolocation'], function() {
-        // Use AMap.Geolocation first to get adcode
-        const geolocation = new window.AMap.Geolocation({
-            enableHighAccuracy: true,
-            timeout: 5000,
-        });
-
-        geolocation.getCurrentPosition(function(status: string, result: any){
-            if(status === 'complete'){
-                // Get Adcode (District code) for accurate weather
-                const adcode = result.addressComponent.adcode;
-                const district = result.addressComponent.district;
-                
-                const weather = new window.AMap.Weather();
-                weather.getLive(adcode, function(err: any, data: any) {
-                    setLoading(false);
-                    if (!err && data.weather) {
-                        const code = mapAMapWeatherToCode(data.weather);
-                        const newWeather = {
-                            temperature: parseInt(data.temperature),
-                            code: code,
-                            condition: data.weather,
-                            locationName: district || data.city
-                        };
-
-                        localStorage.setItem(CACHE_KEY, JSON.stringify({
-                            timestamp: Date.now(),
-                            data: newWeather
-                        }));
-                        
-                        onChange(newWeather);
-                    } else {
-                        console.error(err);
-                        alert("天气查询失败");
-                    }
-                });
-            } else {
-                setLoading(false);
-                console.error(result);
-                alert("无法定位，请确保开启定位权限");
-            }
-        });
-    });
   };
 
   const handleManualSelect = (type: typeof WEATHER_TYPES[0]) => {
     onChange({
-      temperature: value?.temperature || 24,
+      temperature: value?.temperature ?? 24,
       code: type.code,
       condition: type.label,
       locationName: value?.locationName || '手动'
@@ -135,54 +53,55 @@ export const WeatherWidget: React.FC<WeatherWidgetProps> = ({ value, onChange })
   const handleTempChange = (e: React.ChangeEvent<HTMLInputElement>) => {
       const temp = parseInt(e.target.value);
       if (!isNaN(temp) && value) {
-          onChange({ ...value, temperature: temp });
+          // Keep a decimal so a °F value reads back unchanged
+          onChange({ ...value, temperature: unit === 'F' ? Math.round(fromFahrenheit(temp) * 10) / 10 : temp });
       }
   };
 
-  const currentType = value ? WEATHER_TYPES.find(t => t.code === value.code) || WEATHER_TYPES[0] : null;
-  const CurrentIcon = currentType?.icon || Sun;
+  const displayTemperature = value ? Math.round(unit === 'F' ? toFahrenheit(value.temperature) : value.temperature) : 0;
+  const details = value ? weatherDetails(value, unit) : '';
 
   return (
     <div className="relative z-10 w-full">
         <div className="flex gap-2">
             {!value ? (
                 <button
-                    onClick={() => fetchWeather(false)}
+                    onClick={fetchWeather}
                     disabled={loading}
                     className="flex items-center gap-2 px-4 py-2.5 bg-white/50 backdrop-blur-md border border-stone-200/50 rounded-2xl text-stone-500 text-xs font-medium hover:bg-white/80 transition-all"
                 >
                     {loading ? <Loader2 size={16} className="animate-spin" /> : <Sun size={16} />}
-                    <span>{loading ? '定位中...' : '一键获取天气'}</span>
+                    <span>{loading ? '查询中...' : '一键获取天气'}</span>
                 </button>
             ) : (
                 <div className="flex items-center gap-2 bg-white/50 backdrop-blur-md border border-stone-200/50 rounded-2xl p-1.5 pr-4 shadow-sm w-full max-w-[200px]">
                     {/* Icon Selector Trigger */}
                     <button 
                         onClick={() => setShowSelector(!showSelector)}
-                        className={`flex-shrink-0 w-8 h-8 rounded-xl bg-white flex items-center justify-center shadow-sm ${currentType?.color} hover:scale-105 transition-transform`}
+                        className="flex-shrink-0 w-8 h-8 rounded-xl bg-white flex items-center justify-center shadow-sm hover:scale-105 transition-transform"
                     >
-                        <CurrentIcon size={18} />
+                        <WeatherIcon code={value.code} isDay={value.isDay} size={18} />
                     </button>
 
                     {/* Location Name Display */}
                     <div className="flex-1 flex flex-col justify-center min-w-0 px-1 border-r border-stone-200">
                         <span className="text-[10px] text-stone-400 line-clamp-1">{value.locationName || '未知'}</span>
-                        <span className="text-[10px] text-stone-600 font-medium">{currentType?.label || value.condition}</span>
+                        <span className="text-[10px] text-stone-600 font-medium line-clamp-1">{weatherLabel(value.code, value.condition)}</span>
                     </div>
 
                     {/* Temperature Input */}
                     <div className="flex items-center pl-2">
                         <input 
                             type="number" 
-                            value={value.temperature}
+                            value={displayTemperature}
                             onChange={handleTempChange}
                             className="w-10 bg-transparent text-sm font-semibold text-stone-700 text-right focus:outline-none border-b border-transparent hover:border-stone-200 focus:border-stone-400 transition-colors"
                         />
-                        <span className="text-xs text-stone-400 ml-0.5">°C</span>
+                        <span className="text-xs text-stone-400 ml-0.5">°{unit}</span>
                     </div>
 
                     <button 
-                        onClick={() => fetchWeather(true)} 
+                        onClick={fetchWeather} 
                         className="ml-1 p-1.5 text-stone-300 hover:text-stone-500 hover:bg-stone-200/50 rounded-full transition-colors"
                         title="刷新天气"
                     >
@@ -204,6 +123,8 @@ export const WeatherWidget: React.FC<WeatherWidgetProps> = ({ value, onChange })
             )}
         </div>
 
+        {details && <p className="mt-1.5 ml-2 text-[10px] text-stone-400">{details}</p>}
+
         {/* Dropdown Selector */}
         <AnimatePresence>
             {showSelector && (
@@ -211,13 +132,13 @@ export const WeatherWidget: React.FC<WeatherWidgetProps> = ({ value, onChange })
                     initial={{ opacity: 0, y: 10, scale: 0.95 }}
                     animate={{ opacity: 1, y: 0, scale: 1 }}
                     exit={{ opacity: 0, y: 10, scale: 0.95 }}
-                    className="absolute top-full left-0 mt-2 p-2 bg-white/90 backdrop-blur-xl border border-white/50 shadow-xl rounded-2xl grid grid-cols-3 gap-2 w-max z-50"
+                    className="absolute top-full left-0 mt-2 p-2 bg-white/90 backdrop-blur-xl border border-white/50 shadow-xl rounded-2xl grid grid-cols-4 gap-2 w-max z-50"
                 >
                     {WEATHER_TYPES.map(type => (
                         <button
                             key={type.code}
                             onClick={() => handleManualSelect(type)}
-                            className={`flex flex-col items-center gap-1 p-2 rounded-xl transition-colors hover:bg-stone-100 ${value?.code === type.code ? 'bg-stone-50 ring-1 ring-stone-200' : ''}`}
+                            className={`flex flex-col items-center gap-1 p-2 rounded-xl transition-colors hover:bg-stone-100 ${value && weatherGroup(value.code) === type.group ? 'bg-stone-50 ring-1 ring-stone-200' : ''}`}
                         >
                             <type.icon size={20} className={type.color} />
                             <span className="text-[10px] text-stone-600">{type.label}</span>
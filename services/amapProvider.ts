@@ -0,0 +1,433 @@
+import { Place, WeatherInfo } from '../types';
+import { LngLat } from '../utils/geo';
+import type { CurrentPosition, MapHandle, MapPoint, MapProvider } from './mapProvider';
+
+// AMap (高德) JS API 2.0, loaded by the <script> tag in index.html.
+// Everything vendor-specific stays in this file.
+
+// The AMap SDK ships no type definitions; these cover just the parts used below.
+
+type AMapText = string | never[]; // AMap returns [] instead of '' for missing text fields
+type AMapLngLatLike = [number, number] | AMapLngLat;
+
+interface AMapLngLat {
+  lng: number;
+  lat: number;
+}
+
+interface AMapPixel {
+  x: number;
+  y: number;
+}
+
+type AMapBounds = object;
+
+interface AMapMarker {
+  setMap: (map: AMapMap | null) => void;
+  setPosition: (position: AMapLngLatLike) => void;
+  getPosition: () => AMapLngLat;
+  setContent: (content: HTMLElement) => void;
+  setOffset: (offset: AMapPixel) => void;
+  on: (event: 'click', handler: () => void) => void;
+}
+
+interface AMapMap {
+  setCenter: (center: AMapLngLatLike) => void;
+  setZoomAndCenter: (zoom: number, center: AMapLngLatLike) => void;
+  getZoom: () => number;
+  setBounds: (bounds: AMapBounds, immediately?: boolean, avoid?: number[]) => void;
+  add: (marker: AMapMarker) => void;
+  on: (event: 'click', handler: (event: { lnglat: AMapLngLat }) => void) => void;
+  destroy: () => void;
+}
+
+interface AMapClusterPoint {
+  lnglat: [number, number];
+  id: string;
+  thumb?: string;
+}
+
+interface AMapMarkerCluster {
+  setMap: (map: AMapMap | null) => void;
+}
+
+interface AMapMarkerClusterOptions {
+  gridSize: number;
+  renderMarker: (context: { marker: AMapMarker; data: AMapClusterPoint[] }) => void;
+  renderClusterMarker: (context: { marker: AMapMarker; count: number; clusterData: AMapClusterPoint[] }) => void;
+}
+
+interface AMapAddressComponent {
+  province?: AMapText;
+  city?: AMapText;
+  district?: AMapText;
+  street?: AMapText;
+  township?: AMapText;
+  adcode?: AMapText;
+}
+
+interface AMapPoi {
+  id?: AMapText;
+  name: string;
+  address?: AMapText;
+  location?: AMapLngLat;
+  cityname?: AMapText;
+  pname?: AMapText;
+}
+
+interface AMapPlaceSearch {
+  search: (keyword: string, callback: (status: string, result: { info?: string; poiList?: { pois: AMapPoi[] } }) => void) => void;
+}
+
+interface AMapRegeocode {
+  formattedAddress: string;
+  addressComponent?: AMapAddressComponent;
+  pois?: { name: string }[];
+}
+
+interface AMapGeocoder {
+  getAddress: (location: [number, number], callback: (status: string, result: { regeocode?: AMapRegeocode }) => void) => void;
+}
+
+interface AMapGeolocationResult {
+  position: AMapLngLat;
+  formattedAddress?: string;
+  addressComponent?: AMapAddressComponent;
+  message?: string; // Reason, when locating failed
+}
+
+interface AMapGeolocation {
+  getCurrentPosition: (callback: (status: string, result: AMapGeolocationResult) => void) => void;
+}
+
+interface AMapLiveWeather {
+  city: string;
+  weather: string;
+  temperature: string;
+  humidity: string;
+  windPower: string;
+}
+
+interface AMapWeather {
+  getLive: (city: string, callback: (err: unknown, data: AMapLiveWeather | undefined) => void) => void;
+}
+
+interface AMapNamespace {
+  plugin: (names: string[], callback: () => void) => void;
+  Map: new (container: HTMLElement, options: { zoom: number; resizeEnable: boolean; viewMode: string; mapStyle: string }) => AMapMap;
+  Marker: new (options: { position: AMapLngLat; anchor: string }) => AMapMarker;
+  MarkerCluster: new (map: AMapMap, data: AMapClusterPoint[], options: AMapMarkerClusterOptions) => AMapMarkerCluster;
+  LngLat: new (lng: number, lat: number) => AMapLngLat;
+  Pixel: new (x: number, y: number) => AMapPixel;
+  Bounds: new (southWest: [number, number], northEast: [number, number]) => AMapBounds;
+  PlaceSearch: new (options: { pageSize: number; pageIndex: number; extensions: string }) => AMapPlaceSearch;
+  Geocoder: new (options: { radius: number }) => AMapGeocoder;
+  Geolocation: new (options: { enableHighAccuracy: boolean; timeout: number }) => AMapGeolocation;
+  Weather: new () => AMapWeather;
+}
+
+declare global {
+  interface Window {
+    AMap?: AMapNamespace;
+  }
+}
+
+const SCRIPT_SELECTOR = 'script[src*="webapi.amap.com"]';
+const LOAD_TIMEOUT_MS = 8000;
+const MAP_STYLE = 'amap://styles/whitesmoke';
+
+let loading: Promise<void> | null = null;
+
+const loadScript = (): Promise<void> => {
+  if (window.AMap) return Promise.resolve();
+  if (!loading) {
+    loading = new Promise<void>((resolve, reject) => {
+      const fail = () => {
+        loading = null; // Let a later call try again
+        reject(new Error("地图服务加载失败，请检查网络"));
+      };
+      const timer = setTimeout(fail, LOAD_TIMEOUT_MS);
+      const script = document.querySelector<HTMLScriptElement>(SCRIPT_SELECTOR);
+      if (!script) {
+        clearTimeout(timer);
+        fail();
+        return;
+      }
+      script.addEventListener('load', () => {
+        clearTimeout(timer);
+        if (window.AMap) resolve();
+        else fail();
+      }, { once: true });
+      script.addEventListener('error', () => {
+        clearTimeout(timer);
+        fail();
+      }, { once: true });
+    });
+  }
+  return loading;
+};
+
+// Only called once loadScript has resolved
+const sdk = (): AMapNamespace => {
+  if (!window.AMap) throw new Error("地图服务加载失败，请检查网络");
+  return window.AMap;
+};
+
+// AMap.plugin has no error callback; a plugin that never arrives times out instead of hanging the caller
+const loadPlugins = (plugins: string[]): Promise<void> => {
+  return loadScript().then(() => new Promise<void>((resolve, reject) => {
+    const AMap = sdk();
+    const timer = setTimeout(() => reject(new Error("地图服务加载失败，请检查网络")), LOAD_TIMEOUT_MS);
+    AMap.plugin(plugins, () => {
+      clearTimeout(timer);
+      resolve();
+    });
+  }));
+};
+
+const text = (value: AMapText | undefined) => typeof value === 'string' && value ? value : undefined;
+
+const cityOf = (component?: AMapAddressComponent) => text(component?.city) || text(component?.province);
+
+const poiToPlace = (poi: AMapPoi): Place => ({
+  name: poi.name,
+  address: text(poi.address),
+  lng: poi.location?.lng,
+  lat: poi.location?.lat,
+  city: text(poi.cityname) || text(poi.pname),
+  poiId: text(poi.id),
+  provider: 'amap'
+});
+
+// AMap reports conditions as free text ("小雨", "雷阵雨伴有冰雹", ...); map them onto WMO codes
+const WEATHER_PATTERNS: [RegExp, number][] = [
+  [/雷.*冰雹/, 96],
+  [/雷/, 95],
+  [/冻雨/, 66],
+  [/雨夹雪|雨雪/, 67],
+  [/阵雪/, 85],
+  [/暴雪|大雪/, 75],
+  [/中雪/, 73],
+  [/雪/, 71],
+  [/毛毛雨|细雨/, 53],
+  [/强阵雨/, 82],
+  [/阵雨/, 81],
+  [/暴雨|大雨/, 65],
+  [/中雨/, 63],
+  [/雨/, 61],
+  [/雾|霾/, 45],
+  [/阴/, 3],
+  [/多云/, 2],
+  [/少云/, 1],
+  [/晴/, 0]
+];
+
+const weatherCode = (weather: string): number => {
+  const match = WEATHER_PATTERNS.find(([pattern]) => pattern.test(weather || ''));
+  return match ? match[1] : 3; // Wind, dust and the like: treat as overcast
+};
+
+// AMap gives wind as a Beaufort force such as "≤3" or "4"; take the middle of that band
+const BEAUFORT_KMH = [0, 3, 9, 15, 24, 34, 44, 56, 68, 82, 96, 110, 120];
+
+const windSpeed = (power: unknown): number | undefined => {
+  const level = parseInt(String(power).replace(/[^\d]/g, ''), 10);
+  return isNaN(level) ? undefined : BEAUFORT_KMH[Math.min(level, BEAUFORT_KMH.length - 1)];
+};
+
+// Live reports carry no sunrise data; local daytime is a good enough guess
+const isDaytime = (date: Date) => date.getHours() >= 6 && date.getHours() < 18;
+
+const markerElement = (thumb: string | undefined, count?: number) => {
+  const el = document.createElement('div');
+  el.className = 'relative w-11 h-11 rounded-2xl border-2 border-white shadow-lg bg-stone-200 overflow-hidden cursor-pointer';
+  if (thumb) {
+    const img = document.createElement('img');
+    img.src = thumb;
+    img.className = 'w-full h-full object-cover';
+    el.appendChild(img);
+  }
+  if (count && count > 1) {
+    const badge = document.createElement('span');
+    badge.className = 'absolute bottom-0 right-0 min-w-[18px] h-[18px] px-1 rounded-tl-lg bg-stone-900 text-white text-[10px] font-bold flex items-center justify-center';
+    badge.textContent = String(count);
+    el.appendChild(badge);
+  }
+  return el;
+};
+
+const createMap = (container: HTMLElement, zoom = 15): MapHandle => {
+  const AMap = sdk();
+  const map = new AMap.Map(container, {
+    zoom,
+    resizeEnable: true,
+    viewMode: '2D', // Use 2D for better compatibility
+    mapStyle: MAP_STYLE
+  });
+  let marker: AMapMarker | null = null;
+  let cluster: AMapMarkerCluster | null = null;
+  let destroyed = false;
+
+  const setPoints = (points: MapPoint[], onSelect: (id: string) => void) => {
+    loadPlugins(['AMap.MarkerCluster']).then(() => {
+      if (destroyed) return;
+      const data: AMapClusterPoint[] = points.map(p => ({ lnglat: [p.position.lng, p.position.lat], id: p.id, thumb: p.thumb }));
+      cluster?.setMap(null);
+      cluster = new AMap.MarkerCluster(map, data, {
+        gridSize: 60,
+        renderMarker: ({ marker, data }) => {
+          const point = data[0];
+          marker.setContent(markerElement(point.thumb));
+          marker.setOffset(new AMap.Pixel(-22, -22));
+          marker.on('click', () => onSelect(point.id));
+        },
+        renderClusterMarker: ({ marker, count, clusterData }) => {
+          marker.setContent(markerElement(clusterData[0]?.thumb, count));
+          marker.setOffset(new AMap.Pixel(-22, -22));
+          marker.on('click', () => map.setZoomAndCenter(map.getZoom() + 2, marker.getPosition()));
+        }
+      });
+
+      if (points.length === 1) {
+        map.setZoomAndCenter(15, [points[0].position.lng, points[0].position.lat]);
+      } else if (points.length > 1) {
+        const lngs = points.map(p => p.position.lng);
+        const lats = points.map(p => p.position.lat);
+        map.setBounds(new AMap.Bounds([Math.min(...lngs), Math.min(...lats)], [Math.max(...lngs), Math.max(...lats)]), false, [60, 60, 60, 60]);
+      }
+    }).catch(e => console.error("Failed to show map markers:", e));
+  };
+
+  return {
+    setCenter: (point, zoom) => {
+      if (zoom === undefined) map.setCenter([point.lng, point.lat]);
+      else map.setZoomAndCenter(zoom, [point.lng, point.lat]);
+    },
+    setMarker: point => {
+      if (!point) {
+        marker?.setMap(null);
+        marker = null;
+        return;
+      }
+      if (marker) {
+        marker.setPosition([point.lng, point.lat]);
+      } else {
+        marker = new AMap.Marker({ position: new AMap.LngLat(point.lng, point.lat), anchor: 'bottom-center' });
+        map.add(marker);
+      }
+    },
+    setPoints,
+    onClick: handler => map.on('click', e => handler({ lng: e.lnglat.lng, lat: e.lnglat.lat })),
+    destroy: () => {
+      destroyed = true;
+      cluster?.setMap(null);
+      map.destroy();
+    }
+  };
+};
+
+export const createAMapProvider = (): MapProvider => {
+  let placeSearch: AMapPlaceSearch | null = null;
+  let geocoder: AMapGeocoder | null = null;
+
+  const searchPlaces = async (keyword: string): Promise<Place[]> => {
+    await loadPlugins(['AMap.PlaceSearch']);
+    placeSearch = placeSearch || new (sdk().PlaceSearch)({ pageSize: 5, pageIndex: 1, extensions: 'all' });
+    const search = placeSearch;
+    return new Promise(resolve => {
+      search.search(keyword, (status, result) => {
+        resolve(status === 'complete' && result.info === 'OK' && result.poiList ? result.poiList.pois.map(poiToPlace) : []);
+      });
+    });
+  };
+
+  // Names the point after the nearest POI, falling back to the street address
+  const reverseGeocode = async ({ lng, lat }: LngLat): Promise<Place | null> => {
+    await loadPlugins(['AMap.Geocoder']);
+    geocoder = geocoder || new (sdk().Geocoder)({ radius: 1000 });
+    const coder = geocoder;
+    return new Promise(resolve => {
+      coder.getAddress([lng, lat], (status, result) => {
+        if (status !== 'complete' || !result.regeocode) {
+          resolve(null);
+          return;
+        }
+        const address = result.regeocode.formattedAddress;
+        const poi = result.regeocode.pois?.[0];
+        resolve({
+          name: poi?.name || address,
+          address,
+          lng, lat,
+          city: cityOf(result.regeocode.addressComponent),
+          provider: 'amap'
+        });
+      });
+    });
+  };
+
+  const currentPosition = async (): Promise<CurrentPosition> => {
+    await loadPlugins(['AMap.Geolocation']);
+    const geolocation = new (sdk().Geolocation)({ enableHighAccuracy: true, timeout: 10000 });
+    return new Promise((resolve, reject) => {
+      geolocation.getCurrentPosition((status, result) => {
+        if (status !== 'complete') {
+          console.error("AMap geolocation failed:", result.message ?? result);
+          reject(new Error("定位失败，请确保开启定位权限（需 HTTPS 或本地环境）"));
+          return;
+        }
+        const { lng, lat } = result.position;
+        const component = result.addressComponent;
+        const name = component
+          ? (text(component.district) || "") + " · " + (text(component.street) || text(component.township) || "当前位置")
+          : result.formattedAddress || "我的位置";
+        resolve({
+          position: { lng, lat },
+          place: { name, address: result.formattedAddress, lng, lat, city: cityOf(component), provider: 'amap' },
+          area: text(component?.district),
+          regionCode: text(component?.adcode)
+        });
+      });
+    });
+  };
+
+  const liveWeather = async (position: CurrentPosition): Promise<WeatherInfo> => {
+    await loadPlugins(['AMap.Weather']);
+    const weather = new (sdk().Weather)();
+    return new Promise((resolve, reject) => {
+      weather.getLive(position.regionCode || position.place.city || '', (err, data) => {
+        if (err || !data?.weather) {
+          console.error("AMap live weather failed:", err);
+          reject(new Error("天气查询失败"));
+          return;
+        }
+        const temperature = parseInt(data.temperature, 10);
+        if (!Number.isFinite(temperature)) {
+          console.error("AMap live weather has no temperature:", data);
+          reject(new Error("天气查询失败"));
+          return;
+        }
+        const humidity = parseInt(data.humidity, 10);
+        resolve({
+          temperature,
+          code: weatherCode(data.weather),
+          condition: data.weather,
+          locationName: position.area || data.city,
+          humidity: isNaN(humidity) ? undefined : humidity,
+          windSpeed: windSpeed(data.windPower),
+          isDay: isDaytime(new Date())
+        });
+      });
+    });
+  };
+
+  return {
+    id: 'amap',
+    name: '高德地图',
+    ready: loadScript,
+    searchPlaces,
+    reverseGeocode,
+    currentPosition,
+    liveWeather,
+    createMap
+  };
+};
@@ -0,0 +1,103 @@
+import { FoodEntry, Venue } from '../types';
+import { BackupPreferences, ParsedBackup, createBackup, readBackup } from './backup';
+import { getImageBlob, isImageRef } from './storage';
+import { entryWithoutCoordinates } from './places';
+import { blobToDataUrl } from '../utils/images';
+import { stripGpsFromBlob } from '../utils/exif';
+import { createZip, readZip, asBlobPart, ZipFile } from '../utils/zip';
+
+// ZIP archives: a `journal.json` manifest (the JSON backup shape, without
+// embedded images) plus every entry image as its own file under images/,
+// referenced from the manifest by relative path.
+
+export const ARCHIVE_MANIFEST = 'journal.json';
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif'
+};
+
+const MIME_TYPES: Record<string, string> = Object.fromEntries(Object.entries(EXTENSIONS).map(([mime, ext]) => [ext, mime]));
+
+const loadImageBlob = async (src: string): Promise<Blob | undefined> => {
+  if (isImageRef(src)) return getImageBlob(src);
+  try {
+    const response = await fetch(src);
+    return response.ok ? await response.blob() : undefined;
+  } catch (e) {
+    // Remote images without CORS stay referenced by URL
+    return undefined;
+  }
+};
+
+const safeName = (id: string) => id.replace(/[^a-zA-Z0-9_-]/g, '_');
+
+export interface CollectedImages {
+  files: ZipFile[];
+  paths: Map<string, string>; // original image src → path inside the archive
+}
+
+/** Gathers every loadable entry image as an archive file under images/, optionally without GPS metadata. */
+export const collectImageFiles = async (entries: FoodEntry[], stripLocation = false): Promise<CollectedImages> => {
+  const files: ZipFile[] = [];
+  const paths = new Map<string, string>();
+
+  for (const entry of entries) {
+    for (let i = 0; i < entry.images.length; i++) {
+      const src = entry.images[i];
+      if (paths.has(src)) continue;
+      const loaded = await loadImageBlob(src);
+      if (!loaded) continue;
+      const blob = stripLocation ? await stripGpsFromBlob(loaded) : loaded;
+      const path = `images/${safeName(entry.id)}-${i + 1}.${EXTENSIONS[blob.type] || 'jpg'}`;
+      files.push({ name: path, data: new Uint8Array(await blob.arrayBuffer()) });
+      paths.set(src, path);
+    }
+  }
+
+  return { files, paths };
+};
+
+export const createArchive = async (entries: FoodEntry[], tags: string[], venues: Venue[], preferences: BackupPreferences, stripLocation = false): Promise<Blob> => {
+  const { files, paths } = await collectImageFiles(entries, stripLocation);
+
+  const manifestEntries = (stripLocation ? entries.map(entryWithoutCoordinates) : entries).map(entry => ({
+    ...entry,
+    images: entry.images.map(src => paths.get(src) || src)
+  }));
+  const manifest = { ...(await createBackup([], tags, venues, preferences, stripLocation)), entries: manifestEntries };
+
+  files.unshift({ name: ARCHIVE_MANIFEST, data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) });
+  return createZip(files);
+};
+
+/** Reads an archive back into the same shape as a JSON backup import. */
+export const readArchive = async (file: Blob): Promise<ParsedBackup> => {
+  let files: Map<string, Uint8Array>;
+  try {
+    files = await readZip(file);
+  } catch (e) {
+    throw new Error('无法读取 ZIP 文件');
+  }
+
+  const manifestBytes = files.get(ARCHIVE_MANIFEST);
+  if (!manifestBytes) throw new Error(`压缩包中缺少 ${ARCHIVE_MANIFEST}`);
+
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(new TextDecoder().decode(manifestBytes));
+  } catch (e) {
+    throw new Error(`${ARCHIVE_MANIFEST} 不是有效的 JSON`);
+  }
+
+  const images: Record<string, string> = {};
+  for (const [path, bytes] of files) {
+    if (!path.startsWith('images/')) continue;
+    const ext = path.split('.').pop()?.toLowerCase() || '';
+    images[path] = await blobToDataUrl(new Blob([asBlobPart(bytes)], { type: MIME_TYPES[ext] || 'image/jpeg' }));
+  }
+
+  return readBackup(manifest, images);
+};
@@ -0,0 +1,215 @@
+import { FoodEntry, Venue } from '../types';
+import { CURRENT_SCHEMA_VERSION, QuarantinedRecord, isRecord, migrateEntries } from './migrations';
+import { FeedFilter, FeedSort, SORT_MODES } from './feed';
+import { getImageBlob, isImageRef } from './storage';
+import { isVenue } from './venues';
+import { isRatingDimension } from './ratings';
+import { entryWithoutCoordinates, withoutCoordinates } from './places';
+import { blobToDataUrl, placeholderImage } from '../utils/images';
+import { stripGpsFromBlob } from '../utils/exif';
+
+// Single-file JSON backups: entries, tag order, venues, preferences and every stored
+// image embedded as a data URL. Imports go through the same migration
+// pipeline as persisted data, so older backups stay readable.
+
+export const BACKUP_FORMAT = 'gourmet-journal-backup';
+export const BACKUP_VERSION = 1;
+
+export interface BackupPreferences {
+  layoutMode?: 'grid' | 'list';
+  feedFilter?: FeedFilter;
+  feedSort?: FeedSort;
+}
+
+export interface JournalBackup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  schemaVersion: number;
+  exportedAt: string;
+  entries: FoodEntry[];
+  tags: string[];
+  venues?: Venue[]; // Absent in backups made before venues existed
+  preferences: BackupPreferences;
+  images: Record<string, string>; // image ref → data URL (empty in ZIP archives)
+}
+
+export interface ParsedBackup {
+  entries: FoodEntry[]; // Images inlined as data URLs, ready to be saved
+  tags: string[];
+  venues: Venue[];
+  preferences: BackupPreferences;
+  invalid: QuarantinedRecord[];
+  missingImages: number; // Photos the file referenced but didn't contain, replaced by placeholders
+  exportedAt: string;
+}
+
+/** `stripLocation` blanks photo GPS metadata and leaves out the coordinates of entry places and venues. */
+export const createBackup = async (entries: FoodEntry[], tags: string[], venues: Venue[], preferences: BackupPreferences, stripLocation = false): Promise<JournalBackup> => {
+  const images: Record<string, string> = {};
+  for (const ref of new Set(entries.flatMap(e => e.images).filter(isImageRef))) {
+    const blob = await getImageBlob(ref);
+    if (blob) images[ref] = await blobToDataUrl(stripLocation ? await stripGpsFromBlob(blob) : blob);
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    entries: stripLocation ? entries.map(entryWithoutCoordinates) : entries,
+    tags,
+    venues: stripLocation ? venues.map(withoutCoordinates) : venues,
+    preferences,
+    images
+  };
+};
+
+/** Parses and validates a backup file; throws with a user-facing message when unusable. */
+export const parseBackup = (text: string): ParsedBackup => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new Error('文件不是有效的 JSON');
+  }
+  return readBackup(data);
+};
+
+const isStringArray = (value: unknown): value is string[] => Array.isArray(value) && value.every(v => typeof v === 'string');
+
+const isOptional = (value: unknown, check: (value: unknown) => boolean) => value === undefined || check(value);
+const isString = (value: unknown) => typeof value === 'string';
+const isFiniteNumber = (value: unknown) => typeof value === 'number' && Number.isFinite(value);
+const isDay = (value: unknown) => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+// Filters and sorts are spread over the defaults on import, so absent fields
+// are fine, but every field present must have the type the feed expects
+const isFeedFilter = (value: unknown): value is FeedFilter => isRecord(value)
+  && isOptional(value.tags, isStringArray)
+  && isOptional(value.tagMode, v => v === 'any' || v === 'all')
+  && isOptional(value.minRating, isFiniteNumber)
+  && isOptional(value.maxRating, isFiniteNumber)
+  && isOptional(value.ratingDimension, isRatingDimension)
+  && isOptional(value.fromDate, isDay)
+  && isOptional(value.toDate, isDay)
+  && isOptional(value.location, isString)
+  && isOptional(value.weatherCodes, v => Array.isArray(v) && v.every(isFiniteNumber))
+  && isOptional(value.hasPhotos, v => typeof v === 'boolean');
+
+const isFeedSort = (value: unknown): value is FeedSort => isRecord(value)
+  && SORT_MODES.some(m => m.mode === value.mode)
+  && (value.direction === 'asc' || value.direction === 'desc')
+  && isOptional(value.dimension, isRatingDimension);
+
+const readPreferences = (raw: unknown): BackupPreferences => {
+  if (!isRecord(raw)) return {};
+  const preferences: BackupPreferences = {};
+  if (raw.layoutMode === 'grid' || raw.layoutMode === 'list') preferences.layoutMode = raw.layoutMode;
+  if (isFeedFilter(raw.feedFilter)) preferences.feedFilter = raw.feedFilter;
+  if (isFeedSort(raw.feedSort)) preferences.feedSort = raw.feedSort;
+  return preferences;
+};
+
+// Sources that still resolve outside the journal they were exported from
+const isSelfContained = (src: string) => /^(data:|https?:)/.test(src);
+
+/**
+ * Validates an already-decoded backup object. Entry image strings found as
+ * keys of its `images` (or of `files`, e.g. a ZIP's image files) are swapped
+ * for their data URLs; any other local reference is replaced by a placeholder
+ * and counted in `missingImages`.
+ */
+export const readBackup = (raw: unknown, files: Record<string, string> = {}): ParsedBackup => {
+  if (!isRecord(raw) || raw.format !== BACKUP_FORMAT) throw new Error('不是食记备份文件');
+  const { version, schemaVersion } = raw;
+  if (typeof version !== 'number' || version > BACKUP_VERSION) throw new Error('备份文件版本过新，请先更新应用');
+  if (!Array.isArray(raw.entries)) throw new Error('备份文件缺少记录数据');
+  if (typeof schemaVersion !== 'number' || schemaVersion > CURRENT_SCHEMA_VERSION) throw new Error('备份数据版本不受支持');
+
+  const images: Record<string, unknown> = { ...(isRecord(raw.images) ? raw.images : {}), ...files };
+  const { entries, quarantined } = migrateEntries(raw.entries, schemaVersion);
+
+  let missingImages = 0;
+  const resolveImage = (entry: FoodEntry, src: string, index: number) => {
+    const embedded = images[src];
+    if (typeof embedded === 'string') return embedded;
+    if (isSelfContained(src)) return src;
+    missingImages++;
+    return placeholderImage(`${entry.id}-${index}`);
+  };
+
+  return {
+    entries: entries.map(entry => ({
+      ...entry,
+      images: entry.images.map((src, index) => resolveImage(entry, src, index))
+    })),
+    tags: Array.isArray(raw.tags) ? raw.tags.filter((t: unknown): t is string => typeof t === 'string') : [],
+    venues: Array.isArray(raw.venues) ? raw.venues.filter(isVenue) : [],
+    preferences: readPreferences(raw.preferences),
+    invalid: quarantined,
+    missingImages,
+    exportedAt: typeof raw.exportedAt === 'string' ? raw.exportedAt : ''
+  };
+};
+
+// --- Merge ---
+
+export type ConflictResolution = 'mine' | 'theirs' | 'both';
+
+export interface ImportConflict {
+  mine: FoodEntry;
+  theirs: FoodEntry;
+}
+
+export interface ImportPlan {
+  additions: FoodEntry[];
+  conflicts: ImportConflict[];
+  unchanged: number;
+}
+
+/** Splits incoming entries into new ones and ID collisions; identical re-imports are skipped. */
+export const planImport = (existing: FoodEntry[], incoming: FoodEntry[]): ImportPlan => {
+  const byId = new Map(existing.map(e => [e.id, e]));
+  const plan: ImportPlan = { additions: [], conflicts: [], unchanged: 0 };
+
+  incoming.forEach(theirs => {
+    const mine = byId.get(theirs.id);
+    if (!mine) {
+      plan.additions.push(theirs);
+    } else if (mine.updatedAt === theirs.updatedAt && mine.title === theirs.title) {
+      plan.unchanged++;
+    } else {
+      plan.conflicts.push({ mine, theirs });
+    }
+  });
+
+  return plan;
+};
+
+const uniqueId = (taken: Set<string>) => {
+  let candidate = Date.now();
+  while (taken.has(String(candidate))) candidate++;
+  taken.add(String(candidate));
+  return String(candidate);
+};
+
+/**
+ * Applies a plan: replaced entries keep their position, new entries and
+ * "keep both" copies are appended. Unresolved conflicts keep the local entry.
+ */
+export const mergeImport = (existing: FoodEntry[], plan: ImportPlan, resolutions: Record<string, ConflictResolution>): FoodEntry[] => {
+  const replacements = new Map<string, FoodEntry>();
+  const appended: FoodEntry[] = [...plan.additions];
+  const taken = new Set([...existing, ...plan.additions].map(e => e.id));
+
+  plan.conflicts.forEach(({ theirs }) => {
+    const resolution = resolutions[theirs.id] || 'mine';
+    if (resolution === 'theirs') {
+      replacements.set(theirs.id, theirs);
+    } else if (resolution === 'both') {
+      appended.push({ ...theirs, id: uniqueId(taken) });
+    }
+  });
+
+  return [...existing.map(e => replacements.get(e.id) || e), ...appended];
+};
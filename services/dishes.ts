@@ -0,0 +1,42 @@
+import { Dish } from '../types';
+
+// Per-dish breakdown of an entry. Dishes link photos by position in the
+// entry's `images`, so removing photos has to renumber them.
+
+export const createDishId = () => `d-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+export const emptyDish = (): Dish => ({ id: createDishId(), name: '' });
+
+/** Trims text, drops unnamed dishes and empty optional fields; undefined when no dish is left. */
+export const normalizeDishes = (dishes: Dish[] | undefined, imageCount: number): Dish[] | undefined => {
+  const result = (dishes ?? []).filter(d => d.name.trim()).map(dish => {
+    const next: Dish = { id: dish.id, name: dish.name.trim() };
+    if (dish.price !== undefined && Number.isFinite(dish.price) && dish.price >= 0) next.price = dish.price;
+    if (dish.rating) next.rating = dish.rating;
+    if (dish.note?.trim()) next.note = dish.note.trim();
+    const indices = Array.from(new Set(dish.imageIndices ?? [])).filter(i => i < imageCount).sort((a, b) => a - b);
+    if (indices.length > 0) next.imageIndices = indices;
+    return next;
+  });
+  return result.length > 0 ? result : undefined;
+};
+
+/** Renumbers linked photos after the images at `removed` were deleted. */
+export const removeDishImages = (dishes: Dish[] | undefined, removed: Set<number>): Dish[] | undefined => {
+  if (!dishes) return dishes;
+  return dishes.map(dish => {
+    if (!dish.imageIndices) return dish;
+    const imageIndices = dish.imageIndices
+      .filter(i => !removed.has(i))
+      .map(i => i - Array.from(removed).filter(r => r < i).length);
+    return { ...dish, imageIndices: imageIndices.length > 0 ? imageIndices : undefined };
+  });
+};
+
+/** Sum of the priced dishes, or null when none has a price. */
+export const dishesTotal = (dishes: Dish[] | undefined): number | null => {
+  const priced = (dishes ?? []).filter(d => d.price !== undefined);
+  return priced.length > 0 ? priced.reduce((sum, d) => sum + d.price!, 0) : null;
+};
+
+export const formatPrice = (price: number) => `¥${Number.isInteger(price) ? price : price.toFixed(2)}`;
@@ -0,0 +1,86 @@
+import { Dish, FoodEntry, Place, WeatherInfo } from '../types';
+import { toDateTimeInputValue } from '../utils/date';
+import { DimensionRatings } from './ratings';
+
+// Autosaved AddEntryView form state. New entries get a fresh draft id per
+// session; edits use one draft per entry, so reopening the editor finds it.
+
+export interface DraftForm {
+  title: string;
+  location: string;
+  place?: Place;
+  venueId?: string;
+  eatenAt: string; // datetime-local input value
+  description: string;
+  rating: number;
+  ratings?: DimensionRatings;
+  dishes?: Dish[];
+  images: string[]; // Data URLs for new uploads, image refs for existing ones
+  coverIndex: number;
+  tags: string[];
+  weather?: WeatherInfo;
+}
+
+export interface EntryDraft {
+  id: string;
+  entryId?: string; // Set when the draft edits an existing entry
+  form: DraftForm;
+  updatedAt: string; // ISO 8601
+}
+
+export const AUTOSAVE_DELAY_MS = 600;
+
+export const newDraftId = () => `new-${Date.now()}`;
+
+export const editDraftId = (entryId: string) => `edit-${entryId}`;
+
+export const emptyForm = (now = new Date()): DraftForm => ({
+  title: '',
+  location: '',
+  place: undefined,
+  venueId: undefined,
+  eatenAt: toDateTimeInputValue(now.toISOString()),
+  description: '',
+  rating: 0,
+  ratings: undefined,
+  dishes: undefined,
+  images: [],
+  coverIndex: 0,
+  tags: [],
+  weather: undefined
+});
+
+export const formFromEntry = (entry: FoodEntry): DraftForm => ({
+  title: entry.title,
+  location: entry.location,
+  place: entry.place,
+  venueId: entry.venueId,
+  eatenAt: toDateTimeInputValue(entry.eatenAt),
+  description: entry.description,
+  rating: entry.rating,
+  ratings: entry.ratings,
+  dishes: entry.dishes,
+  images: entry.images,
+  coverIndex: entry.coverImageIndex,
+  tags: entry.tags,
+  weather: entry.weather
+});
+
+const sameList = (a: string[], b: string[]) => a.length === b.length && a.every((item, i) => item === b[i]);
+
+// Compared field by field, so large image data URLs are never re-serialized
+export const isFormChanged = (form: DraftForm, baseline: DraftForm) => {
+  return form.title !== baseline.title
+    || form.location !== baseline.location
+    || form.venueId !== baseline.venueId
+    || form.eatenAt !== baseline.eatenAt
+    || form.description !== baseline.description
+    || form.rating !== baseline.rating
+    || form.coverIndex !== baseline.coverIndex
+    || !sameList(form.images, baseline.images)
+    || !sameList(form.tags, baseline.tags)
+    || JSON.stringify(form.ratings ?? null) !== JSON.stringify(baseline.ratings ?? null)
+    || JSON.stringify(form.dishes ?? null) !== JSON.stringify(baseline.dishes ?? null)
+    || JSON.stringify(form.place ?? null) !== JSON.stringify(baseline.place ?? null)
+    || JSON.stringify(form.weather ?? null) !== JSON.stringify(baseline.weather ?? null);
+};
@@ -0,0 +1,144 @@
+import { FoodEntry, RatingDimension } from '../types';
+import { toDateInputValue } from '../utils/date';
+import { isPlaceholderImage } from '../utils/images';
+import { weatherGroup } from '../utils/weatherCodes';
+import { entryRating } from './ratings';
+
+// Filter + sort model for the HomeView feed.
+// A filter is a plain serializable object; each populated field contributes
+// one predicate and an entry must satisfy all of them.
+
+export type TagMatchMode = 'any' | 'all';
+
+export interface FeedFilter {
+  tags: string[];
+  tagMode: TagMatchMode;
+  minRating?: number;
+  maxRating?: number;
+  ratingDimension?: RatingDimension; // Min/max apply to this dimension instead of the overall
+  fromDate?: string; // Local day, "YYYY-MM-DD" (inclusive)
+  toDate?: string; // Local day, "YYYY-MM-DD" (inclusive)
+  location?: string;
+  weatherCodes: number[];
+  hasPhotos?: boolean;
+}
+
+export type SortMode = 'manual' | 'date' | 'rating' | 'title' | 'updated';
+export type SortDirection = 'asc' | 'desc';
+
+export interface FeedSort {
+  mode: SortMode;
+  direction: SortDirection;
+  dimension?: RatingDimension; // For 'rating': sort by one dimension instead of the overall
+}
+
+export const EMPTY_FILTER: FeedFilter = {
+  tags: [],
+  tagMode: 'any',
+  weatherCodes: []
+};
+
+export const DEFAULT_SORT: FeedSort = { mode: 'manual', direction: 'desc' };
+
+export const SORT_MODES: { mode: SortMode; label: string }[] = [
+  { mode: 'manual', label: '手动排序' },
+  { mode: 'date', label: '用餐时间' },
+  { mode: 'rating', label: '评分' },
+  { mode: 'title', label: '标题' },
+  { mode: 'updated', label: '最近编辑' }
+];
+
+type Predicate = (entry: FoodEntry) => boolean;
+
+const buildPredicates = (filter: FeedFilter): Predicate[] => {
+  const predicates: Predicate[] = [];
+
+  if (filter.tags.length > 0) {
+    predicates.push(filter.tagMode === 'all'
+      ? e => filter.tags.every(t => e.tags.includes(t))
+      : e => filter.tags.some(t => e.tags.includes(t)));
+  }
+  // Entries that weren't rated on the chosen dimension never match a bound
+  const dimension = filter.ratingDimension;
+  if (filter.minRating !== undefined) {
+    const min = filter.minRating;
+    predicates.push(e => (entryRating(e, dimension) ?? -1) >= min);
+  }
+  if (filter.maxRating !== undefined) {
+    const max = filter.maxRating;
+    predicates.push(e => {
+      const value = entryRating(e, dimension);
+      return value !== undefined && value <= max;
+    });
+  }
+  if (filter.fromDate) {
+    const from = filter.fromDate;
+    predicates.push(e => toDateInputValue(e.eatenAt) >= from);
+  }
+  if (filter.toDate) {
+    const to = filter.toDate;
+    predicates.push(e => toDateInputValue(e.eatenAt) <= to);
+  }
+  if (filter.location?.trim()) {
+    const needle = filter.location.trim().toLowerCase();
+    predicates.push(e => e.location.toLowerCase().includes(needle));
+  }
+  if (filter.weatherCodes.length > 0) {
+    // Codes select whole groups, so "下雨" also matches showers and heavy rain
+    const groups = new Set(filter.weatherCodes.map(weatherGroup));
+    predicates.push(e => !!e.weather && groups.has(weatherGroup(e.weather.code)));
+  }
+  if (filter.hasPhotos) {
+    predicates.push(e => e.images.some(src => !isPlaceholderImage(src)));
+  }
+
+  return predicates;
+};
+
+/** Number of active filter criteria, for badges. */
+export const countActiveFilters = (filter: FeedFilter): number => {
+  return [
+    filter.tags.length > 0,
+    filter.minRating !== undefined || filter.maxRating !== undefined,
+    !!filter.fromDate || !!filter.toDate,
+    !!filter.location?.trim(),
+    filter.weatherCodes.length > 0,
+    !!filter.hasPhotos
+  ].filter(Boolean).length;
+};
+
+export const filterEntries = (entries: FoodEntry[], filter: FeedFilter): FoodEntry[] => {
+  const predicates = buildPredicates(filter);
+  if (predicates.length === 0) return entries;
+  return entries.filter(e => predicates.every(p => p(e)));
+};
+
+const COMPARATORS: Record<Exclude<SortMode, 'manual'>, (a: FoodEntry, b: FoodEntry) => number> = {
+  date: (a, b) => a.eatenAt.localeCompare(b.eatenAt),
+  rating: (a, b) => a.rating - b.rating,
+  title: (a, b) => a.title.localeCompare(b.title, 'zh-CN'),
+  updated: (a, b) => a.updatedAt.localeCompare(b.updatedAt)
+};
+
+/** Sorts a copy of the entries by one rating dimension; entries not rated on it go last either way. */
+const sortByDimension = (entries: FoodEntry[], dimension: RatingDimension, sign: number): FoodEntry[] => {
+  return [...entries].sort((a, b) => {
+    const x = entryRating(a, dimension);
+    const y = entryRating(b, dimension);
+    if (x === undefined || y === undefined) return (x === undefined ? 1 : 0) - (y === undefined ? 1 : 0);
+    return sign * (x - y);
+  });
+};
+
+/** Sorts a copy of the entries; 'manual' keeps the stored drag order. */
+export const sortEntries = (entries: FoodEntry[], sort: FeedSort): FoodEntry[] => {
+  if (sort.mode === 'manual') return entries;
+  const sign = sort.direction === 'asc' ? 1 : -1;
+  if (sort.mode === 'rating' && sort.dimension) return sortByDimension(entries, sort.dimension, sign);
+  const compare = COMPARATORS[sort.mode];
+  return [...entries].sort((a, b) => sign * compare(a, b));
+};
+
+export const applyFeed = (entries: FoodEntry[], filter: FeedFilter, sort: FeedSort): FoodEntry[] => {
+  return sortEntries(filterEntries(entries, filter), sort);
+};
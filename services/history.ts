@@ -0,0 +1,110 @@
+import { FoodEntry, Venue } from '../types';
+import { isImageRef } from './storage';
+import type { RatingWeights } from './ratings';
+
+// Undo/redo for journal data. Every mutation of entries, trash, tags, venues or
+// rating weights is recorded as a command holding the before/after value of each field it touched;
+// undo restores the "before" values and redo re-applies the "after" ones.
+// Changes made within one event (e.g. deleting a tag rewrites entries and
+// the tag list) are merged into a single command by the caller.
+
+export interface FieldChange<T> {
+  before: T;
+  after: T;
+}
+
+export interface HistoryChange {
+  entries?: FieldChange<FoodEntry[]>;
+  trash?: FieldChange<FoodEntry[]>;
+  tags?: FieldChange<string[]>;
+  venues?: FieldChange<Venue[]>;
+  ratingWeights?: FieldChange<RatingWeights>;
+}
+
+export interface HistoryCommand {
+  label: string; // User-facing description, empty for routine edits
+  change: HistoryChange;
+}
+
+export interface HistoryState {
+  past: HistoryCommand[];
+  future: HistoryCommand[];
+}
+
+export interface JournalSnapshot {
+  entries?: FoodEntry[];
+  trash?: FoodEntry[];
+  tags?: string[];
+  venues?: Venue[];
+  ratingWeights?: RatingWeights;
+}
+
+export const MAX_HISTORY = 50;
+
+export const EMPTY_HISTORY: HistoryState = { past: [], future: [] };
+
+const mergeField = <T>(first?: FieldChange<T>, second?: FieldChange<T>): FieldChange<T> | undefined => {
+  if (first && second) return { before: first.before, after: second.after };
+  return first || second;
+};
+
+/** Pushes a change onto the undo stack (clearing redo), or folds it into the latest command when `merge` is set. */
+export const recordCommand = (history: HistoryState, change: HistoryChange, label = '', merge = false): HistoryState => {
+  const last = history.past[history.past.length - 1];
+  if (merge && last) {
+    const merged: HistoryCommand = {
+      label: last.label || label,
+      change: {
+        entries: mergeField(last.change.entries, change.entries),
+        trash: mergeField(last.change.trash, change.trash),
+        tags: mergeField(last.change.tags, change.tags),
+        venues: mergeField(last.change.venues, change.venues),
+        ratingWeights: mergeField(last.change.ratingWeights, change.ratingWeights)
+      }
+    };
+    return { past: [...history.past.slice(0, -1), merged], future: [] };
+  }
+  return { past: [...history.past, { label, change }].slice(-MAX_HISTORY), future: [] };
+};
+
+const snapshot = (change: HistoryChange, side: 'before' | 'after'): JournalSnapshot => ({
+  entries: change.entries?.[side],
+  trash: change.trash?.[side],
+  tags: change.tags?.[side],
+  venues: change.venues?.[side],
+  ratingWeights: change.ratingWeights?.[side]
+});
+
+/** Moves the latest command to the redo stack; returns the values to restore. */
+export const undo = (history: HistoryState): { history: HistoryState; command: HistoryCommand; restore: JournalSnapshot } | null => {
+  const command = history.past[history.past.length - 1];
+  if (!command) return null;
+  return {
+    history: { past: history.past.slice(0, -1), future: [command, ...history.future] },
+    command,
+    restore: snapshot(command.change, 'before')
+  };
+};
+
+export const redo = (history: HistoryState): { history: HistoryState; command: HistoryCommand; restore: JournalSnapshot } | null => {
+  const command = history.future[0];
+  if (!command) return null;
+  return {
+    history: { past: [...history.past, command], future: history.future.slice(1) },
+    command,
+    restore: snapshot(command.change, 'after')
+  };
+};
+
+/** Stored image refs that undo/redo could bring back; storage must not garbage-collect them yet. */
+export const historyImageRefs = (history: HistoryState): string[] => {
+  const refs = new Set<string>();
+  [...history.past, ...history.future].forEach(({ change }) => {
+    [change.entries?.before, change.entries?.after, change.trash?.before, change.trash?.after].forEach(list => {
+      list?.forEach(entry => entry.images.forEach(src => {
+        if (isImageRef(src)) refs.add(src);
+      }));
+    });
+  });
+  return Array.from(refs);
+};
@@ -0,0 +1,105 @@
+import { ImagePipelineOptions, ProcessedImage, processImage } from '../utils/imageProcessing';
+import { ImageJobRequest, ImageJobResponse } from './imageWorker';
+
+// Sends uploads to the image worker, falling back to the main thread when
+// OffscreenCanvas is unavailable or the worker fails to start.
+
+interface PendingJob {
+  file: Blob;
+  options: ImagePipelineOptions;
+  onProgress?: (progress: number) => void;
+  resolve: (result: ProcessedImage) => void;
+  reject: (error: unknown) => void;
+}
+
+const jobs = new Map<number, PendingJob>();
+let nextJobId = 0;
+let worker: Worker | null = null;
+let workerFailed = false;
+
+const canUseWorker = () => !workerFailed
+  && typeof Worker !== 'undefined'
+  && typeof OffscreenCanvas !== 'undefined'
+  && typeof createImageBitmap === 'function';
+
+// Full-size decodes on the main thread are memory-hungry, so only a few run at once
+const MAIN_THREAD_CONCURRENCY = 2;
+const mainThreadQueue: PendingJob[] = [];
+let mainThreadActive = 0;
+
+const drainMainThread = () => {
+  while (mainThreadActive < MAIN_THREAD_CONCURRENCY && mainThreadQueue.length > 0) {
+    const job = mainThreadQueue.shift()!;
+    mainThreadActive++;
+    processImage(job.file, job.options, job.onProgress)
+      .then(job.resolve, job.reject)
+      .finally(() => {
+        mainThreadActive--;
+        drainMainThread();
+      });
+  }
+};
+
+const runOnMainThread = (job: PendingJob) => {
+  mainThreadQueue.push(job);
+  drainMainThread();
+};
+
+const handleMessage = (event: MessageEvent<ImageJobResponse>) => {
+  const message = event.data;
+  const job = jobs.get(message.id);
+  if (!job) return;
+  if (message.type === 'progress') {
+    job.onProgress?.(message.progress);
+    return;
+  }
+  jobs.delete(message.id);
+  if (message.type === 'done') {
+    job.resolve(message.result);
+  } else {
+    // Some browsers ship OffscreenCanvas without every encoder; retry on the main thread
+    console.warn("Image worker failed, retrying on main thread:", message.message);
+    runOnMainThread(job);
+  }
+};
+
+// The worker script itself could not load or crashed: hand every queued job to the main thread
+const handleWorkerFailure = (event: Event) => {
+  console.warn("Image worker unavailable", event);
+  workerFailed = true;
+  worker?.terminate();
+  worker = null;
+  const pending = Array.from(jobs.values());
+  jobs.clear();
+  pending.forEach(runOnMainThread);
+};
+
+const getWorker = (): Worker | null => {
+  if (worker || !canUseWorker()) return worker;
+  try {
+    worker = new Worker(new URL('./imageWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = handleMessage;
+    worker.onerror = handleWorkerFailure;
+  } catch (e) {
+    console.warn("Image worker unavailable", e);
+    workerFailed = true;
+    worker = null;
+  }
+  return worker;
+};
+
+/** Produces the display and thumbnail variants of an uploaded photo; `onProgress` receives 0–1. */
+export const processUpload = (file: Blob, options: ImagePipelineOptions, onProgress?: (progress: number) => void): Promise<ProcessedImage> => {
+  return new Promise((resolve, reject) => {
+    const job: PendingJob = { file, options, onProgress, resolve, reject };
+    const target = getWorker();
+    if (!target) {
+      runOnMainThread(job);
+      return;
+    }
+    const id = ++nextJobId;
+    jobs.set(id, job);
+    const request: ImageJobRequest = { id, file, options };
+    target.postMessage(request);
+  });
+};
@@ -0,0 +1,31 @@
+import { ImagePipelineOptions, ProcessedImage, processImage } from '../utils/imageProcessing';
+
+// Web Worker entry: runs the upload pipeline off the main thread.
+// Jobs are processed one at a time so several large photos are never decoded at once.
+
+export interface ImageJobRequest {
+  id: number;
+  file: Blob;
+  options: ImagePipelineOptions;
+}
+
+export type ImageJobResponse =
+  | { id: number; type: 'progress'; progress: number }
+  | { id: number; type: 'done'; result: ProcessedImage }
+  | { id: number; type: 'error'; message: string };
+
+const reply = (message: ImageJobResponse) => self.postMessage(message);
+
+let queue: Promise<void> = Promise.resolve();
+
+self.onmessage = (event: MessageEvent<ImageJobRequest>) => {
+  const { id, file, options } = event.data;
+  queue = queue.then(async () => {
+    try {
+      const result = await processImage(file, options, progress => reply({ id, type: 'progress', progress }));
+      reply({ id, type: 'done', result });
+    } catch (e) {
+      reply({ id, type: 'error', message: e instanceof Error ? e.message : String(e) });
+    }
+  });
+};
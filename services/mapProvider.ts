@@ -0,0 +1,61 @@
+import { Place, WeatherInfo } from '../types';
+import { LngLat } from '../utils/geo';
+import { createAMapProvider } from './amapProvider';
+import { createMockMapProvider } from './mockMapProvider';
+
+// Map, geocoding and live-weather services behind one interface, so the UI
+// never talks to a vendor SDK directly. AMap is the default; `?map=mock` in
+// the page URL switches to the offline provider for development.
+
+export interface CurrentPosition {
+  position: LngLat;
+  place: Place; // Short, human-readable name of where the user is
+  area?: string; // District or neighbourhood, for compact labels
+  regionCode?: string; // Provider-specific district code, used for weather lookups
+}
+
+/** One photo marker on the food map. */
+export interface MapPoint {
+  id: string;
+  position: LngLat;
+  thumb?: string;
+}
+
+/** An interactive map rendered into a container element. */
+export interface MapHandle {
+  setCenter: (point: LngLat, zoom?: number) => void;
+  setMarker: (point: LngLat | null) => void; // The single "picked" marker
+  setPoints: (points: MapPoint[], onSelect: (id: string) => void) => void; // Clustered markers; fits the view to them
+  onClick: (handler: (point: LngLat) => void) => void;
+  destroy: () => void;
+}
+
+export interface MapProvider {
+  id: string;
+  name: string; // Shown in the UI, e.g. "高德地图"
+  /** Resolves once the provider can be used; rejects with a user-facing message if it can't load. */
+  ready: () => Promise<void>;
+  searchPlaces: (keyword: string) => Promise<Place[]>;
+  reverseGeocode: (point: LngLat) => Promise<Place | null>;
+  currentPosition: () => Promise<CurrentPosition>;
+  liveWeather: (position: CurrentPosition) => Promise<WeatherInfo>;
+  /** Absent for providers without map tiles; callers fall back to list UIs. */
+  createMap?: (container: HTMLElement, zoom?: number) => MapHandle;
+}
+
+const PROVIDERS: Record<string, () => MapProvider> = {
+  amap: createAMapProvider,
+  mock: createMockMapProvider
+};
+
+const DEFAULT_PROVIDER = 'amap';
+
+let activeProvider: MapProvider | null = null;
+
+export const getMapProvider = (): MapProvider => {
+  if (!activeProvider) {
+    const requested = new URLSearchParams(window.location.search).get('map') || DEFAULT_PROVIDER;
+    activeProvider = (PROVIDERS[requested] || PROVIDERS[DEFAULT_PROVIDER])();
+  }
+  return activeProvider;
+};
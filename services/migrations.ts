@@ -0,0 +1,211 @@
+import { FoodEntry } from '../types';
+import { isIsoTimestamp } from '../utils/date';
+import { MAX_RATING, isRatingDimension } from './ratings';
+
+// Ordered, versioned migrations for persisted FoodEntry records.
+// Each step upgrades a raw record from `version - 1` to `version`; bump
+// CURRENT_SCHEMA_VERSION whenever a step is appended.
+
+type RawRecord = Record<string, unknown>;
+
+export const isRecord = (value: unknown): value is RawRecord => !!value && typeof value === 'object' && !Array.isArray(value);
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isIndex = (value: unknown, length: number): value is number => isFiniteNumber(value) && Number.isInteger(value) && value >= 0 && value < length;
+
+// Entry ids created in-app are Date.now() strings, which date a record reliably
+const timestampFromId = (id: unknown): Date | null => {
+  if (typeof id !== 'string' || !/^\d{12,14}$/.test(id)) return null;
+  const date = new Date(Number(id));
+  return date.getFullYear() >= 2015 ? date : null;
+};
+
+// Parses the old localized "10月12日" / "2024年10月12日" strings; the year,
+// when missing, is taken from `reference` and rolled back if that lands in the future.
+const parseLegacyDate = (text: string, reference: Date): Date | null => {
+  const match = text.match(/(?:(\d{4})年)?\s*(\d{1,2})月\s*(\d{1,2})日/);
+  if (match) {
+    const [, year, month, day] = match;
+    const date = new Date(year ? Number(year) : reference.getFullYear(), Number(month) - 1, Number(day), 12);
+    if (!year && date.getTime() > reference.getTime() + 24 * 60 * 60 * 1000) {
+      date.setFullYear(date.getFullYear() - 1);
+    }
+    return date;
+  }
+  const parsed = Date.parse(text);
+  return isNaN(parsed) ? null : new Date(parsed);
+};
+
+interface Migration {
+  version: number;
+  description: string;
+  migrate: (record: RawRecord) => RawRecord;
+}
+
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Single imageUrl → images[] + coverImageIndex',
+    migrate: (record) => {
+      if (Array.isArray(record.images) && record.images.length > 0) return record;
+      const { imageUrl, ...rest } = record;
+      return {
+        ...rest,
+        images: typeof imageUrl === 'string' && imageUrl ? [imageUrl] : [],
+        coverImageIndex: 0
+      };
+    }
+  },
+  {
+    version: 2,
+    description: 'Free-text date → eatenAt/createdAt/updatedAt ISO timestamps',
+    migrate: (record) => {
+      if (isIsoTimestamp(record.eatenAt)) return record;
+      const { date, ...rest } = record;
+      const idTime = timestampFromId(record.id);
+      const eaten = typeof date === 'string' ? parseLegacyDate(date, idTime || new Date()) : null;
+      if (!eaten) throw new Error(`unrecognized date "${date}"`);
+      const created = (idTime || eaten).toISOString();
+      return { ...rest, eatenAt: eaten.toISOString(), createdAt: created, updatedAt: created };
+    }
+  },
+  {
+    version: 3,
+    description: 'Six-bucket weather codes → WMO codes (1 meant "多云", which WMO numbers 2)',
+    migrate: (record) => {
+      if (!isRecord(record.weather) || record.weather.code !== 1) return record;
+      return { ...record, weather: { ...record.weather, code: 2 } };
+    }
+  }
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export interface QuarantinedRecord {
+  record: unknown;
+  reasons: string[];
+  schemaVersion: number;
+  quarantinedAt: number;
+}
+
+export interface MigrationResult {
+  entries: FoodEntry[];
+  quarantined: QuarantinedRecord[];
+  changed: boolean;
+}
+
+/** Returns the list of problems that keep a record from being a valid FoodEntry. */
+export const validateEntry = (record: unknown): string[] => {
+  if (!isRecord(record)) return ['not an object'];
+  const r = record;
+  const problems: string[] = [];
+
+  if (!isString(r.id) || !r.id) problems.push('id must be a non-empty string');
+  if (!isString(r.title)) problems.push('title must be a string');
+  if (!isString(r.location)) problems.push('location must be a string');
+  if (!isIsoTimestamp(r.eatenAt)) problems.push('eatenAt must be an ISO timestamp');
+  if (!isIsoTimestamp(r.createdAt)) problems.push('createdAt must be an ISO timestamp');
+  if (!isIsoTimestamp(r.updatedAt)) problems.push('updatedAt must be an ISO timestamp');
+  if (!isString(r.description)) problems.push('description must be a string');
+  if (!isFiniteNumber(r.rating)) problems.push('rating must be a number');
+  if (r.ratings !== undefined) {
+    const ratings = r.ratings;
+    if (!isRecord(ratings) || Object.entries(ratings).some(([key, value]) => !isRatingDimension(key) || !isFiniteNumber(value) || value < 0 || value > MAX_RATING)) {
+      problems.push('ratings must map known dimensions to scores between 0 and 5');
+    }
+  }
+  if (r.venueId !== undefined && (!isString(r.venueId) || !r.venueId)) problems.push('venueId must be a non-empty string');
+  if (r.deletedAt !== undefined && !isIsoTimestamp(r.deletedAt)) problems.push('deletedAt must be an ISO timestamp');
+
+  if (!Array.isArray(r.images) || !r.images.every(isString)) {
+    problems.push('images must be an array of strings');
+  } else if (!isIndex(r.coverImageIndex, Math.max(r.images.length, 1))) {
+    problems.push('coverImageIndex must point into images');
+  }
+
+  if (!Array.isArray(r.tags) || !r.tags.every(isString)) problems.push('tags must be an array of strings');
+
+  if (r.dishes !== undefined) {
+    const imageCount = Array.isArray(r.images) ? r.images.length : 0;
+    const dishes: unknown[] = Array.isArray(r.dishes) ? r.dishes : [];
+    if (!Array.isArray(r.dishes) || !dishes.every(d => isRecord(d) && isString(d.id) && isString(d.name))) {
+      problems.push('dishes must have an id and a name');
+    } else if (dishes.filter(isRecord).some(d =>
+      (d.price !== undefined && (!isFiniteNumber(d.price) || d.price < 0)) ||
+      (d.rating !== undefined && (!isFiniteNumber(d.rating) || d.rating < 0 || d.rating > MAX_RATING)) ||
+      (d.note !== undefined && !isString(d.note)) ||
+      (d.imageIndices !== undefined && (!Array.isArray(d.imageIndices) || !d.imageIndices.every((i: unknown) => isIndex(i, imageCount))))
+    )) {
+      problems.push('dish price, rating, note or photos are malformed');
+    }
+  }
+
+  if (r.place !== undefined) {
+    const p = r.place;
+    if (!isRecord(p) || !isString(p.name)) {
+      problems.push('place must have a name');
+    } else if ((p.lng !== undefined || p.lat !== undefined) && !(isFiniteNumber(p.lng) && isFiniteNumber(p.lat))) {
+      problems.push('place coordinates must be numbers');
+    }
+  }
+
+  if (r.weather !== undefined) {
+    const w = r.weather;
+    if (!isRecord(w) || !isFiniteNumber(w.temperature) || !isString(w.condition) || !isFiniteNumber(w.code)) {
+      problems.push('weather is malformed');
+    } else if (['humidity', 'windSpeed', 'feelsLike'].some(key => w[key] !== undefined && !isFiniteNumber(w[key]))) {
+      problems.push('weather details must be numbers');
+    } else if (w.isDay !== undefined && typeof w.isDay !== 'boolean') {
+      problems.push('weather isDay must be a boolean');
+    }
+  }
+
+  return problems;
+};
+
+/**
+ * Upgrades raw records written at `fromVersion` to the current schema and
+ * validates them. Records that fail a step or validation are quarantined
+ * rather than dropped.
+ */
+export const migrateEntries = (records: unknown[], fromVersion: number): MigrationResult => {
+  const pending = MIGRATIONS.filter(m => m.version > fromVersion);
+  const entries: FoodEntry[] = [];
+  const quarantined: QuarantinedRecord[] = [];
+  let changed = false;
+
+  records.forEach(original => {
+    if (!isRecord(original)) {
+      quarantined.push({ record: original, reasons: ['not an object'], schemaVersion: fromVersion, quarantinedAt: Date.now() });
+      return;
+    }
+    let record = original;
+    let version = fromVersion;
+    try {
+      for (const migration of pending) {
+        const next = migration.migrate(record);
+        if (next !== record) changed = true;
+        record = next;
+        version = migration.version;
+      }
+    } catch (e) {
+      quarantined.push({
+        record: original,
+        reasons: [`migration to v${version + 1} failed: ${e instanceof Error ? e.message : String(e)}`],
+        schemaVersion: fromVersion,
+        quarantinedAt: Date.now()
+      });
+      return;
+    }
+
+    const problems = validateEntry(record);
+    if (problems.length > 0) {
+      quarantined.push({ record: original, reasons: problems, schemaVersion: fromVersion, quarantinedAt: Date.now() });
+      return;
+    }
+    // validateEntry checked every field FoodEntry requires
+    entries.push(record as unknown as FoodEntry);
+  });
+
+  return { entries, quarantined, changed: changed || quarantined.length > 0 };
+};
@@ -0,0 +1,65 @@
+import { Place, WeatherInfo } from '../types';
+import { LngLat } from '../utils/geo';
+import type { CurrentPosition, MapProvider } from './mapProvider';
+
+// Offline stand-in for development and testing: a handful of canned places
+// around 上海人民广场, deterministic weather and a short artificial delay.
+// It has no map tiles, so map UIs fall back to their list layouts.
+
+const LATENCY_MS = 150;
+
+const SAMPLE_PLACES: Place[] = [
+  { name: '人民广场', address: '黄浦区人民大道', lng: 121.4737, lat: 31.2304, city: '上海市', poiId: 'mock-1', provider: 'mock' },
+  { name: '南翔馒头店', address: '黄浦区豫园路85号', lng: 121.4921, lat: 31.2272, city: '上海市', poiId: 'mock-2', provider: 'mock' },
+  { name: '老正兴菜馆', address: '黄浦区福州路556号', lng: 121.4786, lat: 31.2348, city: '上海市', poiId: 'mock-3', provider: 'mock' },
+  { name: '小杨生煎', address: '黄浦区黄河路90号', lng: 121.4712, lat: 31.2361, city: '上海市', poiId: 'mock-4', provider: 'mock' },
+  { name: '静安寺', address: '静安区南京西路1686号', lng: 121.4453, lat: 31.2235, city: '上海市', poiId: 'mock-5', provider: 'mock' },
+  { name: '武康路咖啡', address: '徐汇区武康路376号', lng: 121.4366, lat: 31.2079, city: '上海市', poiId: 'mock-6', provider: 'mock' }
+];
+
+const CONDITIONS = [
+  { code: 0, condition: '晴' },
+  { code: 2, condition: '多云' },
+  { code: 3, condition: '阴' },
+  { code: 61, condition: '小雨' }
+];
+
+const delay = <T>(value: T): Promise<T> => new Promise(resolve => setTimeout(() => resolve(value), LATENCY_MS));
+
+// Planar distance is plenty for picking the nearest of a few nearby places
+const distance = (a: LngLat, b: LngLat) => Math.hypot(a.lng - b.lng, a.lat - b.lat);
+
+export const createMockMapProvider = (): MapProvider => {
+  const searchPlaces = (keyword: string): Promise<Place[]> => {
+    const term = keyword.trim().toLowerCase();
+    const matches = SAMPLE_PLACES.filter(p => `${p.name} ${p.address}`.toLowerCase().includes(term));
+    return delay(matches.slice(0, 5));
+  };
+
+  const reverseGeocode = (point: LngLat): Promise<Place | null> => {
+    const nearest = SAMPLE_PLACES.reduce((best, p) => distance(p as LngLat, point) < distance(best as LngLat, point) ? p : best);
+    return delay({ ...nearest, lng: point.lng, lat: point.lat, poiId: undefined });
+  };
+
+  const currentPosition = (): Promise<CurrentPosition> => {
+    const home = SAMPLE_PLACES[0];
+    return delay({ position: { lng: home.lng!, lat: home.lat! }, place: { ...home, name: '黄浦区 · 人民大道' }, area: '黄浦区' });
+  };
+
+  // Varies by hour so repeated refreshes visibly change, but stays reproducible
+  const liveWeather = (position: CurrentPosition): Promise<WeatherInfo> => {
+    const hour = new Date().getHours();
+    const { code, condition } = CONDITIONS[hour % CONDITIONS.length];
+    return delay({ temperature: 18 + (hour % 8), code, condition, locationName: position.area || position.place.city, humidity: 55, windSpeed: 9, isDay: hour >= 6 && hour < 18 });
+  };
+
+  return {
+    id: 'mock',
+    name: '离线示例数据',
+    ready: () => Promise.resolve(),
+    searchPlaces,
+    reverseGeocode,
+    currentPosition,
+    liveWeather
+  };
+};
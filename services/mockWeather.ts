@@ -0,0 +1,34 @@
+import { WeatherInfo } from '../types';
+import { LngLat } from '../utils/geo';
+import { weatherLabel } from '../utils/weatherCodes';
+import type { WeatherSource } from './weather';
+
+// Offline weather for development: derived from the point and hour alone,
+// so the same entry always gets the same answer without any network.
+
+const LATENCY_MS = 150;
+
+const CODES = [0, 2, 3, 45, 53, 61, 71, 95];
+
+export const createMockWeatherSource = (): WeatherSource => {
+  const lookup = (point: LngLat, at: Date): Promise<WeatherInfo> => {
+    const hours = Math.floor(at.getTime() / 3600000);
+    const seed = Math.abs(Math.round(point.lat * 100) * 31 + Math.round(point.lng * 100) + hours);
+    // Warmer in the afternoon, colder at night
+    const hourOfDay = at.getHours();
+    const temperature = 12 + (seed % 10) + Math.round(6 * Math.sin(((hourOfDay - 8) / 24) * 2 * Math.PI));
+    const code = CODES[seed % CODES.length];
+    const weather: WeatherInfo = {
+      temperature,
+      code,
+      condition: weatherLabel(code),
+      humidity: 40 + (seed % 50),
+      windSpeed: seed % 25,
+      feelsLike: temperature - (seed % 4),
+      isDay: hourOfDay >= 6 && hourOfDay < 18
+    };
+    return new Promise(resolve => setTimeout(() => resolve(weather), LATENCY_MS));
+  };
+
+  return { id: 'mock', name: '离线示例数据', lookup };
+};
@@ -0,0 +1,81 @@
+import { WeatherInfo } from '../types';
+import { LngLat } from '../utils/geo';
+import { weatherLabel } from '../utils/weatherCodes';
+import type { WeatherSource } from './weather';
+
+// Open-Meteo (open-meteo.com): free, keyless hourly data for any point on
+// earth, including past dates. It expects WGS-84; our places are GCJ-02,
+// but the few hundred metres of offset don't matter at weather resolution.
+
+const FORECAST_URL = 'https://api.open-meteo.com/v1/forecast';
+const ARCHIVE_URL = 'https://archive-api.open-meteo.com/v1/archive';
+// The archive trails real time by a few days; the forecast API covers recent weeks
+const ARCHIVE_AFTER_DAYS = 7;
+
+const HOURLY_SERIES = ['temperature_2m', 'weather_code', 'relative_humidity_2m', 'apparent_temperature', 'wind_speed_10m', 'is_day'] as const;
+type HourlySeries = typeof HOURLY_SERIES[number];
+
+// The part of the response we ask for; every series lines up with `time` (UTC hours)
+interface OpenMeteoResponse {
+  hourly: { time: string[] } & Partial<Record<HourlySeries, unknown[]>>;
+}
+
+const isOpenMeteoResponse = (value: unknown): value is OpenMeteoResponse => {
+  const hourly = (value as { hourly?: { time?: unknown } } | null)?.hourly;
+  return !!hourly && typeof hourly === 'object' && Array.isArray(hourly.time);
+};
+
+export const createOpenMeteoSource = (): WeatherSource => {
+  const lookup = async (point: LngLat, at: Date): Promise<WeatherInfo> => {
+    const day = at.toISOString().slice(0, 10);
+    const hour = `${at.toISOString().slice(0, 13)}:00`;
+    const archived = Date.now() - at.getTime() > ARCHIVE_AFTER_DAYS * 24 * 60 * 60 * 1000;
+    const params = new URLSearchParams({
+      latitude: point.lat.toFixed(4),
+      longitude: point.lng.toFixed(4),
+      hourly: HOURLY_SERIES.join(','),
+      start_date: day,
+      end_date: day,
+      timezone: 'GMT'
+    });
+
+    let data: unknown;
+    try {
+      const response = await fetch(`${archived ? ARCHIVE_URL : FORECAST_URL}?${params}`);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      data = await response.json();
+    } catch (e) {
+      console.error("Open-Meteo request failed", e);
+      throw new Error("天气查询失败，请检查网络");
+    }
+    if (!isOpenMeteoResponse(data)) {
+      console.error("Unexpected Open-Meteo response", data);
+      throw new Error("天气查询失败");
+    }
+
+    const { hourly } = data;
+    const index = hourly.time.indexOf(hour);
+    const value = (key: HourlySeries): number | undefined => {
+      const series = hourly[key];
+      const v = Array.isArray(series) ? series[index] : undefined;
+      return typeof v === 'number' && Number.isFinite(v) ? v : undefined;
+    };
+    const temperature = value('temperature_2m');
+    const code = value('weather_code');
+    if (index < 0 || temperature === undefined || code === undefined) {
+      throw new Error("该时段暂无天气数据");
+    }
+    const isDay = value('is_day');
+    return {
+      temperature: Math.round(temperature),
+      code,
+      condition: weatherLabel(code),
+      humidity: value('relative_humidity_2m'),
+      windSpeed: value('wind_speed_10m'),
+      feelsLike: value('apparent_temperature'),
+      isDay: isDay === undefined ? undefined : isDay === 1
+    };
+  };
+
+  return { id: 'open-meteo', name: 'Open-Meteo', lookup };
+};
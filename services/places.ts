@@ -0,0 +1,47 @@
+import { FoodEntry, Place } from '../types';
+import { LngLat } from '../utils/geo';
+
+// Helpers for structured entry places. Entries written before places existed
+// only carry the `location` text, so everything here falls back to it.
+
+export const UNKNOWN_LOCATION = '未知地点';
+
+export const entryPlace = (entry: Pick<FoodEntry, 'location' | 'place'>): Place => entry.place ?? { name: entry.location };
+
+export const hasCoordinates = (place?: Place): place is Place & LngLat => {
+  return !!place && Number.isFinite(place.lng) && Number.isFinite(place.lat);
+};
+
+export const placeCoordinates = (entry: Pick<FoodEntry, 'place'>): LngLat | null => {
+  return hasCoordinates(entry.place) ? { lng: entry.place.lng, lat: entry.place.lat } : null;
+};
+
+/** Drops empty optional fields so stored places stay compact. */
+export const normalizePlace = (place: Place): Place => {
+  const result: Place = { name: place.name.trim() };
+  if (place.address?.trim()) result.address = place.address.trim();
+  if (hasCoordinates(place)) {
+    result.lng = place.lng;
+    result.lat = place.lat;
+  }
+  if (place.city?.trim()) result.city = place.city.trim();
+  if (place.poiId) result.poiId = place.poiId;
+  if (place.provider) result.provider = place.provider;
+  return result;
+};
+
+/** The same place without lng/lat, for exports made with location removal on. */
+export const withoutCoordinates = <T extends Place>(place: T): T => {
+  const { lng, lat, ...rest } = place;
+  return rest as T;
+};
+
+/** The entry with its place's coordinates removed; other location text is kept. */
+export const entryWithoutCoordinates = (entry: FoodEntry): FoodEntry => {
+  return entry.place && hasCoordinates(entry.place) ? { ...entry, place: withoutCoordinates(entry.place) } : entry;
+};
+
+/** A place worth storing: anything beyond the bare name the location text already holds. */
+export const isStructuredPlace = (place?: Place): place is Place => {
+  return !!place && !!(place.address || hasCoordinates(place) || place.city || place.poiId);
+};
@@ -0,0 +1,248 @@
+import { Dish, FoodEntry } from '../types';
+import { collectImageFiles } from './archive';
+import { entryWithoutCoordinates, hasCoordinates } from './places';
+import { ratedDimensions } from './ratings';
+import { formatPrice } from './dishes';
+import { createZip, ZipFile } from '../utils/zip';
+import { toDateInputValue } from '../utils/date';
+import { weatherLabel } from '../utils/weatherCodes';
+
+// Publishing exports: one Markdown note per entry (YAML front matter + image
+// links) for note vaults and static site generators, and optionally a single
+// index.html styled after the detail page. Both share the
+// images/ folder of the ZIP archive export.
+
+export type PublishGrouping = 'month' | 'tag';
+
+export interface PublishOptions {
+  markdown: boolean;
+  html: boolean;
+  groupBy: PublishGrouping;
+}
+
+export const DEFAULT_PUBLISH_OPTIONS: PublishOptions = { markdown: true, html: true, groupBy: 'month' };
+
+const NOTES_DIR = 'notes';
+const UNTAGGED = '未分类';
+
+// --- Markdown ---
+
+// JSON string literals are valid double-quoted YAML scalars
+const yamlString = (value: string) => JSON.stringify(value);
+
+const frontMatter = (entry: FoodEntry): string => {
+  const lines = [
+    '---',
+    `title: ${yamlString(entry.title)}`,
+    `location: ${yamlString(entry.location)}`,
+    `date: ${entry.eatenAt}`,
+    `tags: [${entry.tags.map(yamlString).join(', ')}]`,
+    `rating: ${entry.rating}`
+  ];
+  const dimensions = ratedDimensions(entry.ratings);
+  if (dimensions.length > 0) lines.push('ratings:', ...dimensions.map(({ id, value }) => `  ${id}: ${value}`));
+  if (entry.place?.address) lines.push(`address: ${yamlString(entry.place.address)}`);
+  if (hasCoordinates(entry.place)) lines.push(`coordinates: [${entry.place.lng}, ${entry.place.lat}]`);
+  if (entry.weather) {
+    lines.push(
+      'weather:',
+      `  condition: ${yamlString(entry.weather.condition)}`,
+      `  temperature: ${entry.weather.temperature}`,
+      `  code: ${entry.weather.code}`
+    );
+    if (entry.weather.locationName) lines.push(`  location: ${yamlString(entry.weather.locationName)}`);
+    if (entry.weather.humidity !== undefined) lines.push(`  humidity: ${entry.weather.humidity}`);
+    if (entry.weather.windSpeed !== undefined) lines.push(`  wind_speed: ${entry.weather.windSpeed}`);
+    if (entry.weather.feelsLike !== undefined) lines.push(`  feels_like: ${entry.weather.feelsLike}`);
+  }
+  lines.push('---');
+  return lines.join('\n');
+};
+
+// "- 麻婆豆腐 · ¥38 · ★4.5 — 很麻"
+const dishLine = (dish: Dish) => {
+  const head = [dish.name, dish.price !== undefined && formatPrice(dish.price), dish.rating && `★${dish.rating}`].filter(Boolean).join(' · ');
+  return dish.note ? `${head} — ${dish.note}` : head;
+};
+
+export const entryToMarkdown = (entry: FoodEntry, imagePath: (src: string) => string = src => src): string => {
+  const images = entry.images.map((src, i) => `![${entry.title} ${i + 1}](${imagePath(src).replace(/ /g, '%20')})`);
+  const dishes = entry.dishes ?? [];
+  return [
+    frontMatter(entry),
+    '',
+    `# ${entry.title}`,
+    '',
+    ...(images.length > 0 ? [images.join('\n'), ''] : []),
+    entry.description,
+    '',
+    ...(dishes.length > 0 ? ['## 菜品', '', ...dishes.map(d => `- ${dishLine(d)}`), ''] : [])
+  ].join('\n');
+};
+
+// Keeps CJK and other letters; drops characters that are unsafe in file names
+const slugify = (text: string) => text.trim().replace(/[\\/:*?"<>|#^[\]\s]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'entry';
+
+const noteFileNames = (entries: FoodEntry[]): Map<string, string> => {
+  const names = new Map<string, string>();
+  const taken = new Set<string>();
+  entries.forEach(entry => {
+    const base = `${toDateInputValue(entry.eatenAt)}-${slugify(entry.title)}`;
+    let name = base;
+    for (let n = 2; taken.has(name); n++) name = `${base}-${n}`;
+    taken.add(name);
+    names.set(entry.id, `${name}.md`);
+  });
+  return names;
+};
+
+// --- HTML ---
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c] as string));
+
+const monthLabel = (iso: string) => {
+  const date = new Date(iso);
+  return isNaN(date.getTime()) ? '未知日期' : `${date.getFullYear()}年${date.getMonth() + 1}月`;
+};
+
+const formatHtmlDate = (iso: string) => {
+  const date = new Date(iso);
+  if (isNaN(date.getTime())) return '';
+  return date.toLocaleString('zh-CN', { year: 'numeric', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+};
+
+/** Groups entries newest first; with tag grouping an entry appears under each of its tags. */
+export const groupEntries = (entries: FoodEntry[], groupBy: PublishGrouping): { label: string; entries: FoodEntry[] }[] => {
+  const sorted = [...entries].sort((a, b) => b.eatenAt.localeCompare(a.eatenAt));
+  const groups = new Map<string, FoodEntry[]>();
+  sorted.forEach(entry => {
+    const labels = groupBy === 'month' ? [monthLabel(entry.eatenAt)] : (entry.tags.length > 0 ? entry.tags : [UNTAGGED]);
+    labels.forEach(label => groups.set(label, [...(groups.get(label) || []), entry]));
+  });
+  const result = Array.from(groups, ([label, list]) => ({ label, entries: list }));
+  if (groupBy === 'tag') result.sort((a, b) => b.entries.length - a.entries.length);
+  return result;
+};
+
+const HTML_STYLES = `
+  body { margin: 0; background: #FAFAF9; color: #44403C; font-family: -apple-system, BlinkMacSystemFont, "PingFang SC", "Microsoft YaHei", sans-serif; }
+  .serif { font-family: "Noto Serif SC", "Songti SC", serif; }
+  main { max-width: 672px; margin: 0 auto; padding: 48px 20px 80px; }
+  header h1 { font-size: 28px; color: #1C1917; margin: 0 0 4px; font-weight: 500; }
+  header p { font-size: 12px; color: #A8A29E; letter-spacing: 0.1em; margin: 0 0 40px; }
+  nav { display: flex; flex-wrap: wrap; gap: 8px; margin-bottom: 32px; }
+  nav a { font-size: 11px; color: #78716C; text-decoration: none; padding: 4px 12px; border: 1px solid #E7E5E4; border-radius: 999px; }
+  h2 { font-size: 10px; font-weight: 700; color: #A8A29E; text-transform: uppercase; letter-spacing: 0.2em; margin: 40px 4px 16px; }
+  article { background: rgba(255,255,255,0.8); border: 1px solid rgba(255,255,255,0.6); border-radius: 2rem; overflow: hidden; box-shadow: 0 -10px 40px -15px rgba(0,0,0,0.05); margin-bottom: 20px; }
+  .cover { width: 100%; height: 280px; object-fit: cover; display: block; }
+  .body { padding: 24px; }
+  .head { display: flex; justify-content: space-between; align-items: flex-start; gap: 16px; margin-bottom: 16px; }
+  .head h3 { font-size: 20px; color: #1C1917; font-weight: 600; letter-spacing: 0.03em; line-height: 1.25; margin: 0; }
+  .rating { font-size: 24px; color: #F59E0B; }
+  .meta { display: flex; flex-wrap: wrap; gap: 8px; margin-bottom: 24px; }
+  .meta span { font-size: 10px; color: #78716C; font-weight: 500; padding: 4px 10px; border-radius: 999px; background: #F5F5F4; border: 1px solid rgba(231,229,228,0.5); }
+  .meta .weather { background: rgba(239,246,255,0.5); border-color: #DBEAFE; }
+  .divider { height: 1px; background: #F5F5F4; margin-bottom: 24px; }
+  .description { font-size: 13px; line-height: 1.75rem; letter-spacing: 0.03em; text-align: justify; font-weight: 300; color: #57534E; white-space: pre-wrap; margin: 0 0 24px; }
+  .dishes { list-style: none; padding: 0; margin: 0 0 24px; font-size: 12px; color: #57534E; }
+  .dishes li { padding: 6px 0; border-bottom: 1px solid #F5F5F4; }
+  .tags { display: flex; flex-wrap: wrap; gap: 8px; margin-bottom: 24px; }
+  .tags span { font-size: 10px; padding: 4px 12px; border-radius: 999px; border: 1px solid #D6D3D1; color: #57534E; }
+  .gallery { display: grid; grid-template-columns: repeat(4, 1fr); gap: 8px; }
+  .gallery img { width: 100%; aspect-ratio: 1; object-fit: cover; border-radius: 12px; display: block; }
+`;
+
+const renderEntry = (entry: FoodEntry, imagePath: (src: string) => string): string => {
+  const cover = entry.images[entry.coverImageIndex] ?? entry.images[0];
+  const gallery = entry.images.length > 1
+    ? `<div class="gallery">${entry.images.map(src => `<img src="${escapeHtml(imagePath(src))}" alt="" loading="lazy">`).join('')}</div>`
+    : '';
+  const weather = entry.weather
+    ? `<span class="weather">${escapeHtml(weatherLabel(entry.weather.code, entry.weather.condition))} ${Math.round(entry.weather.temperature)}°C</span>`
+    : '';
+  const ratings = ratedDimensions(entry.ratings)
+    .map(({ label, value }) => `<span>${escapeHtml(label)} ${value.toFixed(1)}</span>`)
+    .join('');
+
+  return `
+    <article>
+      ${cover ? `<img class="cover" src="${escapeHtml(imagePath(cover))}" alt="${escapeHtml(entry.title)}" loading="lazy">` : ''}
+      <div class="body">
+        <div class="head">
+          <h3 class="serif">${escapeHtml(entry.title)}</h3>
+          <span class="rating serif">${entry.rating.toFixed(1)}</span>
+        </div>
+        <div class="meta">
+          <span>${escapeHtml(formatHtmlDate(entry.eatenAt))}</span>
+          ${entry.location ? `<span>${escapeHtml(entry.location)}</span>` : ''}
+          ${weather}
+        </div>
+        ${ratings ? `<div class="meta">${ratings}</div>` : ''}
+        <div class="divider"></div>
+        ${entry.description ? `<p class="description">${escapeHtml(entry.description)}</p>` : ''}
+        ${entry.dishes?.length ? `<ul class="dishes">${entry.dishes.map(d => `<li>${escapeHtml(dishLine(d))}</li>`).join('')}</ul>` : ''}
+        ${entry.tags.length > 0 ? `<div class="tags">${entry.tags.map(t => `<span>${escapeHtml(t)}</span>`).join('')}</div>` : ''}
+        ${gallery}
+      </div>
+    </article>`;
+};
+
+export const entriesToHtml = (entries: FoodEntry[], groupBy: PublishGrouping, imagePath: (src: string) => string = src => src): string => {
+  const groups = groupEntries(entries, groupBy);
+  const anchor = (i: number) => `group-${i + 1}`;
+
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>食 · 记</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<main>
+  <header>
+    <h1 class="serif">我的食记</h1>
+    <p>${entries.length} 条记录 · 导出于 ${escapeHtml(formatHtmlDate(new Date().toISOString()))}</p>
+  </header>
+  <nav>${groups.map((g, i) => `<a href="#${anchor(i)}">${escapeHtml(g.label)} · ${g.entries.length}</a>`).join('')}</nav>
+  ${groups.map((g, i) => `
+  <section id="${anchor(i)}">
+    <h2>${escapeHtml(g.label)}</h2>
+    ${g.entries.map(entry => renderEntry(entry, imagePath)).join('')}
+  </section>`).join('')}
+</main>
+</body>
+</html>
+`;
+};
+
+// --- Bundle ---
+
+/** Builds a ZIP with notes/*.md and/or index.html, plus the shared images/ folder. */
+export const createPublishBundle = async (allEntries: FoodEntry[], options: PublishOptions, stripLocation = false): Promise<Blob> => {
+  const entries = stripLocation ? allEntries.map(entryWithoutCoordinates) : allEntries;
+  const { files: imageFiles, paths } = await collectImageFiles(entries, stripLocation);
+  const encoder = new TextEncoder();
+  const files: ZipFile[] = [];
+
+  if (options.markdown) {
+    const names = noteFileNames(entries);
+    // Notes live one level down, so local images are referenced as ../images/
+    const notePath = (src: string) => paths.has(src) ? `../${paths.get(src)}` : src;
+    entries.forEach(entry => {
+      files.push({
+        name: `${NOTES_DIR}/${names.get(entry.id)}`,
+        data: encoder.encode(entryToMarkdown(entry, notePath)),
+        modified: new Date(entry.updatedAt)
+      });
+    });
+  }
+
+  if (options.html) {
+    files.push({ name: 'index.html', data: encoder.encode(entriesToHtml(entries, options.groupBy, src => paths.get(src) || src)) });
+  }
+
+  return createZip([...files, ...imageFiles]);
+};
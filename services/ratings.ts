@@ -0,0 +1,70 @@
+import { FoodEntry, RatingDimension } from '../types';
+
+// Per-dimension ratings and the weighted overall score. `FoodEntry.rating`
+// stores the overall, so feeds, stats and exports keep working off one
+// number; changing the weights re-scores every entry with dimension ratings.
+
+export type DimensionRatings = Partial<Record<RatingDimension, number>>;
+export type RatingWeights = Record<RatingDimension, number>; // 0 hides a dimension from the editor
+
+export const RATING_DIMENSIONS: { id: RatingDimension; label: string }[] = [
+  { id: 'taste', label: '口味' },
+  { id: 'ambience', label: '环境' },
+  { id: 'service', label: '服务' },
+  { id: 'value', label: '性价比' },
+  { id: 'presentation', label: '摆盘' }
+];
+
+export const DEFAULT_RATING_WEIGHTS: RatingWeights = { taste: 3, ambience: 1, service: 1, value: 2, presentation: 1 };
+
+export const WEIGHT_STEPS = [0, 1, 2, 3];
+
+export const MAX_RATING = 5;
+
+export const roundToHalf = (value: number) => Math.round(value * 2) / 2;
+
+export const dimensionLabel = (dimension: RatingDimension) => RATING_DIMENSIONS.find(d => d.id === dimension)!.label;
+
+export const isRatingDimension = (value: unknown): value is RatingDimension => RATING_DIMENSIONS.some(d => d.id === value);
+
+/** Rated dimensions only, in display order. */
+export const ratedDimensions = (ratings: DimensionRatings | undefined) =>
+  RATING_DIMENSIONS.filter(d => (ratings?.[d.id] ?? 0) > 0).map(d => ({ ...d, value: ratings![d.id]! }));
+
+/** Drops unrated dimensions and orders the rest canonically; undefined when nothing is rated. */
+export const normalizeRatings = (ratings: DimensionRatings | undefined): DimensionRatings | undefined => {
+  const rated = ratedDimensions(ratings);
+  return rated.length > 0 ? Object.fromEntries(rated.map(({ id, value }) => [id, value])) : undefined;
+};
+
+/** Weighted mean of the rated, non-zero-weight dimensions to one decimal, or null when there are none. */
+export const overallRating = (ratings: DimensionRatings | undefined, weights: RatingWeights): number | null => {
+  let total = 0;
+  let weightSum = 0;
+  ratedDimensions(ratings).forEach(({ id, value }) => {
+    total += value * weights[id];
+    weightSum += weights[id];
+  });
+  return weightSum > 0 ? Math.round((total / weightSum) * 10) / 10 : null;
+};
+
+/**
+ * Recomputes the overall of entries with dimension ratings. Entries whose
+ * rated dimensions all weigh 0 keep their score; returns `entries` itself
+ * when nothing changed.
+ */
+export const rescoreEntries = (entries: FoodEntry[], weights: RatingWeights): FoodEntry[] => {
+  let changed = false;
+  const rescored = entries.map(entry => {
+    const overall = overallRating(entry.ratings, weights);
+    if (overall === null || overall === entry.rating) return entry;
+    changed = true;
+    return { ...entry, rating: overall };
+  });
+  return changed ? rescored : entries;
+};
+
+/** An entry's score on one dimension, or its overall when `dimension` is omitted. */
+export const entryRating = (entry: FoodEntry, dimension?: RatingDimension): number | undefined =>
+  dimension ? entry.ratings?.[dimension] : entry.rating;
+
@@ -0,0 +1,129 @@
+import { ViewState } from '../types';
+
+// Hash routing: each ViewState maps to a "#/..." route so the back button,
+// refresh and shared links work. History entries carry a depth counter, which
+// tells whether "back" can stay inside the app, and the home scroll offset.
+//
+//   #/                  HOME
+//   #/search?q=...      SEARCH
+//   #/add               ADD
+//   #/profile           PROFILE
+//   #/trash             TRASH
+//   #/map               MAP
+//   #/entry/:id         DETAIL
+//   #/entry/:id/edit    EDIT
+//   #/venue/:id         VENUE
+
+export interface Route {
+  view: ViewState;
+  entryId?: string;
+  venueId?: string;
+  query?: string;
+}
+
+interface HistoryState {
+  depth: number;
+  homeScroll?: number;
+}
+
+export const HOME_ROUTE: Route = { view: ViewState.HOME };
+
+export const parseHash = (hash: string): Route | null => {
+  const raw = hash.replace(/^#/, '') || '/';
+  const [path, search = ''] = raw.split('?');
+  const segments = path.split('/').filter(Boolean).map(decodeURIComponent);
+
+  if (segments.length === 0) return HOME_ROUTE;
+  switch (segments[0]) {
+    case 'search':
+      return segments.length === 1 ? { view: ViewState.SEARCH, query: new URLSearchParams(search).get('q') || '' } : null;
+    case 'add':
+      return segments.length === 1 ? { view: ViewState.ADD } : null;
+    case 'profile':
+      return segments.length === 1 ? { view: ViewState.PROFILE } : null;
+    case 'trash':
+      return segments.length === 1 ? { view: ViewState.TRASH } : null;
+    case 'map':
+      return segments.length === 1 ? { view: ViewState.MAP } : null;
+    case 'entry':
+      if (segments.length === 2) return { view: ViewState.DETAIL, entryId: segments[1] };
+      if (segments.length === 3 && segments[2] === 'edit') return { view: ViewState.EDIT, entryId: segments[1] };
+      return null;
+    case 'venue':
+      return segments.length === 2 ? { view: ViewState.VENUE, venueId: segments[1] } : null;
+    default:
+      return null;
+  }
+};
+
+export const routeToHash = (route: Route): string => {
+  switch (route.view) {
+    case ViewState.SEARCH:
+      return route.query ? `#/search?${new URLSearchParams({ q: route.query })}` : '#/search';
+    case ViewState.ADD:
+      return '#/add';
+    case ViewState.PROFILE:
+      return '#/profile';
+    case ViewState.TRASH:
+      return '#/trash';
+    case ViewState.MAP:
+      return '#/map';
+    case ViewState.DETAIL:
+      return `#/entry/${encodeURIComponent(route.entryId || '')}`;
+    case ViewState.EDIT:
+      return `#/entry/${encodeURIComponent(route.entryId || '')}/edit`;
+    case ViewState.VENUE:
+      return `#/venue/${encodeURIComponent(route.venueId || '')}`;
+    default:
+      return '#/';
+  }
+};
+
+const currentState = (): HistoryState => {
+  const state = window.history.state as HistoryState | null;
+  return state && typeof state.depth === 'number' ? state : { depth: 0 };
+};
+
+/** Current route; unknown paths fall back to HOME. */
+export const readRoute = (): Route => parseHash(window.location.hash) || HOME_ROUTE;
+
+export const navigate = (route: Route, options: { replace?: boolean } = {}) => {
+  const hash = routeToHash(route);
+  const state = currentState();
+  if (options.replace) {
+    window.history.replaceState({ ...state, homeScroll: undefined }, '', hash);
+  } else if (hash !== window.location.hash) {
+    window.history.pushState({ depth: state.depth + 1 }, '', hash);
+  }
+};
+
+/** Goes back in history when the previous entry belongs to the app, otherwise replaces the current entry with `fallback`. */
+export const goBack = (fallback: Route) => {
+  if (currentState().depth > 0) {
+    window.history.back();
+  } else {
+    navigate(fallback, { replace: true });
+  }
+};
+
+/** Remembers the home feed scroll offset on the current history entry, so returning to it restores the position. */
+export const saveHomeScroll = (offset: number) => {
+  window.history.replaceState({ ...currentState(), homeScroll: offset }, '');
+};
+
+export const readHomeScroll = (): number | undefined => currentState().homeScroll;
+
+/** Subscribes to back/forward navigation; returns an unsubscribe function. */
+export const onRouteChange = (listener: (route: Route) => void) => {
+  const handler = () => listener(readRoute());
+  window.addEventListener('popstate', handler);
+  return () => window.removeEventListener('popstate', handler);
+};
+
+/** Normalises the initial URL (unknown paths become "#/") and stamps the entry with a history state. */
+export const initRouter = (): Route => {
+  if ('scrollRestoration' in window.history) window.history.scrollRestoration = 'manual';
+  const route = readRoute();
+  window.history.replaceState(currentState(), '', routeToHash(route));
+  return route;
+};
@@ -0,0 +1,198 @@
+import { FoodEntry } from '../types';
+
+// In-memory inverted index over the journal.
+// Chinese text has no word boundaries, so CJK runs are indexed as character
+// unigrams + bigrams; Latin/digit runs are indexed as whole words.
+
+export type SearchField = 'title' | 'dishes' | 'tags' | 'location' | 'description';
+
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 3,
+  dishes: 2.5,
+  tags: 2.5,
+  location: 2,
+  description: 1
+};
+
+export interface SearchResult {
+  entry: FoodEntry;
+  score: number;
+  fields: SearchField[];
+}
+
+interface Posting {
+  score: number;
+  fields: Set<SearchField>;
+}
+
+export interface SearchIndex {
+  search: (query: string) => SearchResult[];
+}
+
+const CJK_RUN = /[㐀-鿿豈-﫿]/;
+const TOKEN_RUN = /[㐀-鿿豈-﫿]+|(?:(?![㐀-鿿豈-﫿])[\p{L}\p{N}])+/gu;
+
+const normalize = (text: string) => text.normalize('NFKC').toLowerCase();
+
+/** Splits text into index terms (CJK n-grams, Latin words). */
+export const tokenize = (text: string): string[] => {
+  const terms: string[] = [];
+  for (const [run] of normalize(text).matchAll(TOKEN_RUN)) {
+    if (CJK_RUN.test(run)) {
+      const chars = Array.from(run);
+      chars.forEach((char, i) => {
+        terms.push(char);
+        if (i + 1 < chars.length) terms.push(char + chars[i + 1]);
+      });
+    } else {
+      terms.push(run);
+    }
+  }
+  return terms;
+};
+
+// Query terms: a CJK run of 2+ characters only needs its bigrams, which
+// already imply the unigrams and keep single common characters from dominating.
+const queryTerms = (query: string): string[] => {
+  const terms = new Set<string>();
+  for (const [run] of normalize(query).matchAll(TOKEN_RUN)) {
+    if (CJK_RUN.test(run)) {
+      const chars = Array.from(run);
+      if (chars.length === 1) terms.add(chars[0]);
+      for (let i = 0; i + 1 < chars.length; i++) terms.add(chars[i] + chars[i + 1]);
+    } else {
+      terms.add(run);
+    }
+  }
+  return Array.from(terms);
+};
+
+const fieldText = (entry: FoodEntry, field: SearchField): string => {
+  if (field === 'tags') return entry.tags.join(' ');
+  if (field === 'dishes') return (entry.dishes ?? []).map(d => [d.name, d.note].filter(Boolean).join(' ')).join(' ');
+  // Address and city make a place findable by neighbourhood, not just by name
+  if (field === 'location') return [entry.location, entry.place?.address, entry.place?.city].filter(Boolean).join(' ');
+  return entry[field];
+};
+
+export const buildSearchIndex = (entries: FoodEntry[]): SearchIndex => {
+  const postings = new Map<string, Map<string, Posting>>();
+  const byId = new Map(entries.map(e => [e.id, e]));
+
+  entries.forEach(entry => {
+    (Object.keys(FIELD_WEIGHTS) as SearchField[]).forEach(field => {
+      tokenize(fieldText(entry, field)).forEach(term => {
+        let docs = postings.get(term);
+        if (!docs) {
+          docs = new Map();
+          postings.set(term, docs);
+        }
+        let posting = docs.get(entry.id);
+        if (!posting) {
+          posting = { score: 0, fields: new Set() };
+          docs.set(entry.id, posting);
+        }
+        posting.score += FIELD_WEIGHTS[field];
+        posting.fields.add(field);
+      });
+    });
+  });
+
+  const vocabulary = Array.from(postings.keys());
+
+  // Latin words also match by prefix so "mat" finds "matcha"
+  const lookup = (term: string): Map<string, Posting> | undefined => {
+    if (CJK_RUN.test(term)) return postings.get(term);
+    const merged = new Map<string, Posting>();
+    vocabulary.filter(v => v.startsWith(term)).forEach(v => {
+      postings.get(v)!.forEach((posting, id) => {
+        const existing = merged.get(id);
+        if (!existing || existing.score < posting.score) merged.set(id, posting);
+      });
+    });
+    return merged.size > 0 ? merged : undefined;
+  };
+
+  const search = (query: string): SearchResult[] => {
+    const terms = queryTerms(query);
+    if (terms.length === 0) return [];
+
+    let scores: Map<string, { score: number; fields: Set<SearchField> }> | null = null;
+
+    // Every query term must match (AND); rarer terms weigh more (idf)
+    for (const term of terms) {
+      const docs = lookup(term);
+      if (!docs) return [];
+      const idf = Math.log(1 + entries.length / docs.size);
+      const next = new Map<string, { score: number; fields: Set<SearchField> }>();
+      docs.forEach((posting, id) => {
+        if (scores && !scores.has(id)) return;
+        const prev = scores?.get(id);
+        next.set(id, {
+          score: (prev?.score || 0) + posting.score * idf,
+          fields: new Set([...(prev?.fields || []), ...posting.fields])
+        });
+      });
+      scores = next;
+      if (scores.size === 0) return [];
+    }
+
+    return Array.from(scores!.entries())
+      .map(([id, { score, fields }]) => ({ entry: byId.get(id)!, score, fields: Array.from(fields) }))
+      .sort((a, b) => b.score - a.score || b.entry.eatenAt.localeCompare(a.entry.eatenAt));
+  };
+
+  return { search };
+};
+
+/** Whether text contains every term of the query, with the index's prefix rule for Latin words. */
+export const matchesQuery = (text: string, query: string): boolean => {
+  const terms = queryTerms(query);
+  if (terms.length === 0) return false;
+  const tokens = new Set(tokenize(text));
+  return terms.every(term => tokens.has(term) || (!CJK_RUN.test(term) && Array.from(tokens).some(t => t.startsWith(term))));
+};
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+/**
+ * Splits text into matched / unmatched segments for the given query.
+ * Whole query words are highlighted where they occur; CJK words that only
+ * match piecewise fall back to their bigrams.
+ */
+export const highlightSegments = (text: string, query: string): HighlightSegment[] => {
+  const haystack = normalize(text);
+  if (haystack.length !== text.length) return [{ text, match: false }];
+
+  const needles = new Set<string>();
+  for (const [run] of normalize(query).matchAll(TOKEN_RUN)) {
+    if (haystack.includes(run) || !CJK_RUN.test(run)) {
+      needles.add(run);
+    } else {
+      queryTerms(run).forEach(t => needles.add(t));
+    }
+  }
+
+  const marked = new Array<boolean>(text.length).fill(false);
+  needles.forEach(needle => {
+    let from = haystack.indexOf(needle);
+    while (from !== -1) {
+      marked.fill(true, from, from + needle.length);
+      from = haystack.indexOf(needle, from + needle.length);
+    }
+  });
+
+  const segments: HighlightSegment[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const last = segments[segments.length - 1];
+    if (last && last.match === marked[i]) {
+      last.text += text[i];
+    } else {
+      segments.push({ text: text[i], match: marked[i] });
+    }
+  }
+  return segments;
+};
@@ -0,0 +1,290 @@
+import { FoodEntry, Place, RatingDimension, WeatherInfo } from '../types';
+import { isImageRef } from './storage';
+import { validateEntry } from './migrations';
+import { entryWithoutCoordinates, isStructuredPlace, normalizePlace } from './places';
+import { DimensionRatings, MAX_RATING, RATING_DIMENSIONS, normalizeRatings } from './ratings';
+import { WEATHER_TYPES } from '../components/WeatherIcon';
+import { WMO_CODES } from '../utils/weatherCodes';
+import { escapeFormula, toCsv, unescapeFormula } from '../utils/csv';
+import { placeholderImage } from '../utils/images';
+
+// CSV exchange for spreadsheet workflows. Export writes one row per entry
+// with tags joined and weather flattened into columns; import maps arbitrary
+// spreadsheet columns onto entry fields and builds new entries from rows.
+// Free-text cells are escaped so spreadsheet apps don't run them as formulas.
+// Stored photos can't travel through CSV, only remote image URLs do.
+
+const LIST_SEPARATOR = '; ';
+
+export const CSV_COLUMNS = [
+  'id', 'title', 'location', 'address', 'longitude', 'latitude', 'eaten_at', 'rating',
+  'rating_taste', 'rating_ambience', 'rating_service', 'rating_value', 'rating_presentation', 'tags', 'description',
+  'weather_condition', 'weather_temperature', 'weather_code', 'weather_location',
+  'image_urls', 'created_at', 'updated_at'
+] as const;
+
+/** `stripLocation` leaves the longitude/latitude columns empty. */
+export const entriesToCsv = (entries: FoodEntry[], stripLocation = false): string => {
+  const rows = (stripLocation ? entries.map(entryWithoutCoordinates) : entries).map(entry => [
+    entry.id,
+    escapeFormula(entry.title),
+    escapeFormula(entry.location),
+    escapeFormula(entry.place?.address ?? ''),
+    entry.place?.lng !== undefined ? String(entry.place.lng) : '',
+    entry.place?.lat !== undefined ? String(entry.place.lat) : '',
+    entry.eatenAt,
+    String(entry.rating),
+    ...RATING_DIMENSIONS.map(({ id }) => entry.ratings?.[id] !== undefined ? String(entry.ratings[id]) : ''),
+    escapeFormula(entry.tags.join(LIST_SEPARATOR)),
+    escapeFormula(entry.description),
+    escapeFormula(entry.weather?.condition ?? ''),
+    entry.weather ? String(entry.weather.temperature) : '',
+    entry.weather ? String(entry.weather.code) : '',
+    escapeFormula(entry.weather?.locationName ?? ''),
+    entry.images.filter(src => !src.startsWith('data:') && !isImageRef(src)).join(' '),
+    entry.createdAt,
+    entry.updatedAt
+  ]);
+  return toCsv([[...CSV_COLUMNS], ...rows]);
+};
+
+// --- Import ---
+
+export type CsvField =
+  | 'title' | 'location' | 'address' | 'longitude' | 'latitude' | 'eatenAt' | 'rating' | 'tags' | 'description'
+  | 'ratingTaste' | 'ratingAmbience' | 'ratingService' | 'ratingValue' | 'ratingPresentation'
+  | 'weatherCondition' | 'weatherTemperature' | 'weatherCode' | 'imageUrls' | 'id';
+
+export type CsvMapping = Record<CsvField, number | null>; // field → column index
+
+export const CSV_FIELDS: { field: CsvField; label: string; required?: boolean }[] = [
+  { field: 'title', label: '标题', required: true },
+  { field: 'location', label: '地点' },
+  { field: 'address', label: '地址' },
+  { field: 'longitude', label: '经度' },
+  { field: 'latitude', label: '纬度' },
+  { field: 'eatenAt', label: '时间' },
+  { field: 'rating', label: '评分' },
+  { field: 'ratingTaste', label: '口味评分' },
+  { field: 'ratingAmbience', label: '环境评分' },
+  { field: 'ratingService', label: '服务评分' },
+  { field: 'ratingValue', label: '性价比评分' },
+  { field: 'ratingPresentation', label: '摆盘评分' },
+  { field: 'tags', label: '标签' },
+  { field: 'description', label: '描述' },
+  { field: 'weatherCondition', label: '天气' },
+  { field: 'weatherTemperature', label: '气温' },
+  { field: 'weatherCode', label: '天气代码' },
+  { field: 'imageUrls', label: '图片链接' },
+  { field: 'id', label: '记录 ID' }
+];
+
+// Header spellings recognised when guessing the mapping (compared lowercased, without spaces/underscores)
+const FIELD_ALIASES: Record<CsvField, string[]> = {
+  title: ['title', 'name', 'dish', '标题', '名称', '菜名', '店名'],
+  location: ['location', 'place', 'address', 'restaurant', '地点', '地址', '餐厅', '位置'],
+  address: ['address', 'addr', '地址', '详细地址'],
+  longitude: ['longitude', 'lng', 'lon', '经度'],
+  latitude: ['latitude', 'lat', '纬度'],
+  eatenAt: ['eatenat', 'date', 'time', 'datetime', '日期', '时间', '用餐时间'],
+  rating: ['rating', 'score', 'stars', '评分', '分数', '星级', '总分'],
+  ratingTaste: ['ratingtaste', 'taste', '口味', '口味评分'],
+  ratingAmbience: ['ratingambience', 'ambience', 'ambiance', '环境', '环境评分'],
+  ratingService: ['ratingservice', 'service', '服务', '服务评分'],
+  ratingValue: ['ratingvalue', 'value', '性价比', '性价比评分'],
+  ratingPresentation: ['ratingpresentation', 'presentation', '摆盘', '摆盘评分'],
+  tags: ['tags', 'tag', 'category', '标签', '分类'],
+  description: ['description', 'notes', 'note', 'comment', 'review', '描述', '备注', '笔记', '评价'],
+  weatherCondition: ['weathercondition', 'weather', '天气'],
+  weatherTemperature: ['weathertemperature', 'temperature', 'temp', '气温', '温度'],
+  weatherCode: ['weathercode', '天气代码'],
+  imageUrls: ['imageurls', 'images', 'image', 'photos', 'photo', '图片', '照片', '图片链接'],
+  id: ['id', 'entryid', '编号', '记录id']
+};
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/[\s_\-]/g, '');
+
+export const guessMapping = (headers: string[]): CsvMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const mapping = {} as CsvMapping;
+  const used = new Set<number>();
+  CSV_FIELDS.forEach(({ field }) => {
+    const index = normalized.findIndex((h, i) => !used.has(i) && FIELD_ALIASES[field].includes(h));
+    mapping[field] = index >= 0 ? index : null;
+    if (index >= 0) used.add(index);
+  });
+  return mapping;
+};
+
+const pad = (n: string) => n.padStart(2, '0');
+
+/** Accepts ISO timestamps and spreadsheet-style "2026/10/12 19:30" or "2026-10-12" local times. */
+export const parseDateCell = (value: string): string | null => {
+  const text = value.trim();
+  if (!text) return null;
+  const local = text.match(/^(\d{4})[-/.年](\d{1,2})[-/.月](\d{1,2})日?(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/);
+  const date = local
+    ? new Date(`${local[1]}-${pad(local[2])}-${pad(local[3])}T${pad(local[4] || '12')}:${local[5] || '00'}:${local[6] || '00'}`)
+    : new Date(text);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+export const splitList = (value: string) => value.split(/[;,，；、|]/).map(s => s.trim()).filter(Boolean);
+
+export interface CsvRowError {
+  row: number; // 1-based spreadsheet row, header included
+  reason: string;
+}
+
+export interface CsvImportResult {
+  entries: FoodEntry[];
+  errors: CsvRowError[];
+  newTags: string[]; // Tags used by the rows that aren't in the current tag list
+}
+
+const parseWeather = (cell: (field: CsvField) => string): WeatherInfo | undefined => {
+  const condition = cell('weatherCondition');
+  const codeText = cell('weatherCode');
+  if (!condition && !codeText) return undefined;
+
+  // Accept both the picker's labels ("下雨") and the detailed WMO ones ("中雨")
+  const wmo = Object.keys(WMO_CODES).map(Number).find(c => WMO_CODES[c].label === condition);
+  const known = WEATHER_TYPES.find(t => t.label === condition || String(t.code) === codeText);
+  const code = codeText && isFinite(Number(codeText)) ? Number(codeText) : wmo ?? known?.code ?? 0;
+  const temperature = Number(cell('weatherTemperature'));
+  return {
+    condition: condition || known?.label || '',
+    code,
+    temperature: cell('weatherTemperature') && isFinite(temperature) ? temperature : 0,
+    locationName: '导入'
+  };
+};
+
+const DIMENSION_FIELDS: Record<RatingDimension, CsvField> = {
+  taste: 'ratingTaste',
+  ambience: 'ratingAmbience',
+  service: 'ratingService',
+  value: 'ratingValue',
+  presentation: 'ratingPresentation'
+};
+
+const clampRating = (value: number) => Math.min(MAX_RATING, Math.max(0, Math.round(value * 10) / 10));
+
+/** Per-dimension columns; returns the header of the first unreadable one as `invalid`. */
+const parseRatings = (cell: (field: CsvField) => string): { ratings?: DimensionRatings; invalid?: string } => {
+  const ratings: DimensionRatings = {};
+  for (const { id } of RATING_DIMENSIONS) {
+    const text = cell(DIMENSION_FIELDS[id]);
+    if (!text) continue;
+    const value = Number(text);
+    if (!isFinite(value)) return { invalid: text };
+    ratings[id] = clampRating(value);
+  }
+  return { ratings: normalizeRatings(ratings) };
+};
+
+const parsePlace = (cell: (field: CsvField) => string): Place | undefined => {
+  const lng = Number(cell('longitude'));
+  const lat = Number(cell('latitude'));
+  const hasCoords = !!cell('longitude') && !!cell('latitude') && isFinite(lng) && isFinite(lat) && Math.abs(lng) <= 180 && Math.abs(lat) <= 90;
+  const place = normalizePlace({
+    name: cell('location'),
+    address: cell('address'),
+    ...(hasCoords && { lng, lat })
+  });
+  return isStructuredPlace(place) ? place : undefined;
+};
+
+/**
+ * Builds new entries from data rows (header excluded). Rows without a title,
+ * with unreadable values or with the id of an entry already in the journal
+ * (e.g. a re-imported export) are reported, not imported. Rows keep their id
+ * when it is new, so importing the same file twice is caught too.
+ */
+export const rowsToEntries = (rows: string[][], mapping: CsvMapping, existingTags: string[], existingIds: string[] = []): CsvImportResult => {
+  const result: CsvImportResult = { entries: [], errors: [], newTags: [] };
+  const knownTags = new Set(existingTags);
+  const takenIds = new Set(existingIds);
+  const now = new Date().toISOString();
+  let nextId = Date.now();
+
+  rows.forEach((row, index) => {
+    const rowNumber = index + 2;
+    const cell = (field: CsvField) => {
+      const column = mapping[field];
+      return column === null ? '' : unescapeFormula((row[column] ?? '').trim());
+    };
+
+    const title = cell('title');
+    if (!title) {
+      result.errors.push({ row: rowNumber, reason: '缺少标题' });
+      return;
+    }
+
+    const sourceId = cell('id');
+    if (sourceId && takenIds.has(sourceId)) {
+      result.errors.push({ row: rowNumber, reason: `记录已存在（ID ${sourceId}）` });
+      return;
+    }
+
+    const eatenAt = cell('eatenAt') ? parseDateCell(cell('eatenAt')) : now;
+    if (!eatenAt) {
+      result.errors.push({ row: rowNumber, reason: `无法识别的时间「${cell('eatenAt')}」` });
+      return;
+    }
+
+    const ratingValue = Number(cell('rating') || 0);
+    if (!isFinite(ratingValue)) {
+      result.errors.push({ row: rowNumber, reason: `无法识别的评分「${cell('rating')}」` });
+      return;
+    }
+
+    const { ratings, invalid } = parseRatings(cell);
+    if (invalid !== undefined) {
+      result.errors.push({ row: rowNumber, reason: `无法识别的评分「${invalid}」` });
+      return;
+    }
+
+    while (takenIds.has(String(nextId))) nextId++;
+    const id = sourceId || String(nextId++);
+    const tags = Array.from(new Set(splitList(cell('tags'))));
+    const imageUrls = cell('imageUrls').split(/\s+/).filter(url => /^https?:\/\//.test(url));
+
+    const entry: FoodEntry = {
+      id,
+      title,
+      location: cell('location'),
+      place: parsePlace(cell),
+      eatenAt,
+      createdAt: now,
+      updatedAt: now,
+      images: imageUrls.length > 0 ? imageUrls : [placeholderImage(id)],
+      coverImageIndex: 0,
+      tags,
+      rating: clampRating(ratingValue),
+      ratings,
+      description: cell('description'),
+      weather: parseWeather(cell)
+    };
+    if (!entry.weather) delete entry.weather;
+    if (!entry.place) delete entry.place;
+    if (!entry.ratings) delete entry.ratings;
+
+    const problems = validateEntry(entry);
+    if (problems.length > 0) {
+      result.errors.push({ row: rowNumber, reason: problems.join(', ') });
+      return;
+    }
+
+    tags.forEach(tag => {
+      if (!knownTags.has(tag)) {
+        knownTags.add(tag);
+        result.newTags.push(tag);
+      }
+    });
+    takenIds.add(id);
+    result.entries.push(entry);
+  });
+
+  return result;
+};
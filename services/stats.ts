@@ -0,0 +1,109 @@
+import { FoodEntry } from '../types';
+import { toDateInputValue } from '../utils/date';
+import { UNKNOWN_LOCATION } from './places';
+import { WeatherGroup, weatherGroup } from '../utils/weatherCodes';
+
+// Aggregates for the profile dashboard, all derived from the entry list.
+
+export interface MonthBucket {
+  month: string; // "YYYY-MM"
+  count: number;
+  averageRating: number | null;
+}
+
+export interface RankedItem {
+  label: string;
+  count: number;
+}
+
+export interface StreakStats {
+  current: number;
+  longest: number;
+}
+
+export interface JournalStats {
+  total: number;
+  averageRating: number | null;
+  months: MonthBucket[];
+  topTags: RankedItem[];
+  topLocations: RankedItem[];
+  weather: { group: WeatherGroup; count: number }[];
+  streaks: StreakStats;
+}
+
+const monthKey = (date: Date) => `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+
+const average = (values: number[]) => values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null;
+
+const rank = (values: string[], limit: number): RankedItem[] => {
+  const counts = new Map<string, number>();
+  values.forEach(v => counts.set(v, (counts.get(v) || 0) + 1));
+  return Array.from(counts.entries())
+    .map(([label, count]) => ({ label, count }))
+    .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label, 'zh-CN'))
+    .slice(0, limit);
+};
+
+/** Buckets for the `count` months ending with the month of `now`, oldest first. */
+export const entriesByMonth = (entries: FoodEntry[], count = 12, now = new Date()): MonthBucket[] => {
+  const ratings = new Map<string, number[]>();
+  entries.forEach(e => {
+    const key = toDateInputValue(e.eatenAt).slice(0, 7);
+    const list = ratings.get(key) || [];
+    list.push(e.rating);
+    ratings.set(key, list);
+  });
+
+  const buckets: MonthBucket[] = [];
+  for (let i = count - 1; i >= 0; i--) {
+    const key = monthKey(new Date(now.getFullYear(), now.getMonth() - i, 1));
+    const values = (ratings.get(key) || []).filter(r => r > 0);
+    buckets.push({ month: key, count: ratings.get(key)?.length || 0, averageRating: average(values) });
+  }
+  return buckets;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Day numbers are computed from local calendar days so DST shifts don't break a run
+const dayNumber = (day: string) => {
+  const [y, m, d] = day.split('-').map(Number);
+  return Math.round(Date.UTC(y, m - 1, d) / DAY_MS);
+};
+
+/** Consecutive days with at least one entry; the current streak may end today or yesterday. */
+export const computeStreaks = (entries: FoodEntry[], now = new Date()): StreakStats => {
+  const days = Array.from(new Set(entries.map(e => dayNumber(toDateInputValue(e.eatenAt))))).sort((a, b) => a - b);
+  if (days.length === 0) return { current: 0, longest: 0 };
+
+  let longest = 1;
+  let run = 1;
+  for (let i = 1; i < days.length; i++) {
+    run = days[i] === days[i - 1] + 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  }
+
+  const today = dayNumber(toDateInputValue(now.toISOString()));
+  const last = days[days.length - 1];
+  const current = last === today || last === today - 1 ? run : 0;
+  return { current, longest };
+};
+
+export const computeStats = (entries: FoodEntry[], now = new Date()): JournalStats => {
+  const weatherCounts = new Map<WeatherGroup, number>();
+  entries.forEach(e => {
+    if (!e.weather) return;
+    const group = weatherGroup(e.weather.code);
+    weatherCounts.set(group, (weatherCounts.get(group) || 0) + 1);
+  });
+
+  return {
+    total: entries.length,
+    averageRating: average(entries.map(e => e.rating).filter(r => r > 0)),
+    months: entriesByMonth(entries, 12, now),
+    topTags: rank(entries.flatMap(e => e.tags), 6),
+    topLocations: rank(entries.map(e => e.location).filter(l => l && l !== UNKNOWN_LOCATION), 5),
+    weather: Array.from(weatherCounts.entries()).map(([group, count]) => ({ group, count })).sort((a, b) => b.count - a.count),
+    streaks: computeStreaks(entries, now)
+  };
+};
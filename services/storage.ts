@@ -0,0 +1,439 @@
+import { FoodEntry, Venue, WeatherInfo } from '../types';
+import { CURRENT_SCHEMA_VERSION, QuarantinedRecord, migrateEntries } from './migrations';
+import { FeedFilter, FeedSort } from './feed';
+import { EntryDraft } from './drafts';
+import { createThumbnail } from '../utils/imageProcessing';
+import { TemperatureUnit } from '../utils/weatherCodes';
+import type { RatingWeights } from './ratings';
+
+// IndexedDB-backed persistence for the journal.
+// Entries and image Blobs live in separate object stores; entries only keep
+// `idb:<id>` references to their images, resolved lazily at render time.
+
+const DB_NAME = 'gourmet_journal';
+const DB_VERSION = 4;
+
+const ENTRY_STORE = 'entries';
+const IMAGE_STORE = 'images';
+const META_STORE = 'meta';
+// Records that failed migration or validation, kept for manual recovery
+const QUARANTINE_STORE = 'quarantine';
+// Soft-deleted entries (with deletedAt), purged after the retention period
+const TRASH_STORE = 'trash';
+// Autosaved editor drafts, keyed by draft id
+const DRAFT_STORE = 'drafts';
+
+export const IMAGE_REF_PREFIX = 'idb:';
+
+// Keys previously used directly with localStorage, imported once on first open
+const LEGACY_ENTRIES_KEY = 'gourmet_journal_entries';
+
+// Everything persisted in the meta store, keyed by name
+export interface PreferenceMap {
+  gourmet_tags: string[];
+  venues: Venue[];
+  gourmet_layout_mode: 'grid' | 'list';
+  gourmet_feed_filter: FeedFilter;
+  gourmet_feed_sort: FeedSort;
+  gourmet_weather_cache_amap: { timestamp: number; data: WeatherInfo }; // Legacy single slot, superseded by weather_cache
+  weather_cache: Record<string, { timestamp: number; data: WeatherInfo }>; // Keyed by source, ~1 km cell and UTC hour
+  entry_order: string[];
+  schema_version: number;
+  trash_schema_version: number;
+  trash_retention_days: number;
+  image_byte_budget: number;
+  strip_photo_location: boolean;
+  temperature_unit: TemperatureUnit;
+  rating_weights: RatingWeights;
+}
+
+const LEGACY_PREFERENCE_KEYS: (keyof PreferenceMap)[] = [
+  'gourmet_tags',
+  'gourmet_layout_mode',
+  'gourmet_weather_cache_amap'
+];
+
+interface StoredImage {
+  id: string;
+  blob: Blob;
+  thumbnail?: Blob; // Missing for images saved before thumbnails existed
+}
+
+export type ImageVariant = 'full' | 'thumb';
+
+export const isImageRef = (src?: string): src is string => !!src && src.startsWith(IMAGE_REF_PREFIX);
+
+// --- Low-level helpers ---
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('Transaction aborted'));
+  });
+};
+
+const importLegacyLocalStorage = (tx: IDBTransaction) => {
+  try {
+    const saved = localStorage.getItem(LEGACY_ENTRIES_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved);
+      if (Array.isArray(parsed)) {
+        const entryStore = tx.objectStore(ENTRY_STORE);
+        parsed.forEach((entry: FoodEntry) => entryStore.put(entry));
+        tx.objectStore(META_STORE).put(parsed.map((e: FoodEntry) => e.id), 'entry_order');
+      }
+    }
+
+    LEGACY_PREFERENCE_KEYS.forEach(key => {
+      const raw = localStorage.getItem(key);
+      if (raw === null) return;
+      let value: unknown = raw;
+      try {
+        value = JSON.parse(raw);
+      } catch (e) {
+        // Plain strings such as the layout mode were stored unquoted
+      }
+      tx.objectStore(META_STORE).put(value, key);
+    });
+  } catch (e) {
+    console.warn("Legacy data import failed", e);
+    return;
+  }
+
+  tx.addEventListener('complete', () => {
+    localStorage.removeItem(LEGACY_ENTRIES_KEY);
+    LEGACY_PREFERENCE_KEYS.forEach(key => localStorage.removeItem(key));
+  });
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (event.oldVersion < 1) {
+          db.createObjectStore(ENTRY_STORE, { keyPath: 'id' });
+          db.createObjectStore(IMAGE_STORE, { keyPath: 'id' });
+          db.createObjectStore(META_STORE);
+          importLegacyLocalStorage(request.transaction!);
+        }
+        if (event.oldVersion < 2) {
+          db.createObjectStore(QUARANTINE_STORE, { autoIncrement: true });
+        }
+        if (event.oldVersion < 3) {
+          db.createObjectStore(TRASH_STORE, { keyPath: 'id' });
+        }
+        if (event.oldVersion < 4) {
+          db.createObjectStore(DRAFT_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+// --- Preferences ---
+
+export const getPreference = async <K extends keyof PreferenceMap>(key: K): Promise<PreferenceMap[K] | undefined> => {
+  const db = await openDatabase();
+  const tx = db.transaction(META_STORE, 'readonly');
+  return requestToPromise(tx.objectStore(META_STORE).get(key));
+};
+
+export const setPreference = async <K extends keyof PreferenceMap>(key: K, value: PreferenceMap[K]): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(META_STORE, 'readwrite');
+  tx.objectStore(META_STORE).put(value, key);
+  return transactionDone(tx);
+};
+
+// --- Entries ---
+
+/**
+ * Loads all entries in their saved order, migrating them to the current
+ * schema first. Resolves to null when nothing has ever been persisted.
+ */
+export const loadEntries = async (): Promise<FoodEntry[] | null> => {
+  const db = await openDatabase();
+  const readTx = db.transaction([ENTRY_STORE, META_STORE], 'readonly');
+  const metaStore = readTx.objectStore(META_STORE);
+  const [records, order, version] = await Promise.all([
+    requestToPromise(readTx.objectStore(ENTRY_STORE).getAll() as IDBRequest<unknown[]>),
+    requestToPromise(metaStore.get('entry_order') as IDBRequest<string[] | undefined>),
+    requestToPromise(metaStore.get('schema_version') as IDBRequest<number | undefined>)
+  ]);
+
+  if (!order && records.length === 0) return null;
+
+  const { entries, quarantined, changed } = migrateEntries(records, version ?? 0);
+
+  if (changed || version !== CURRENT_SCHEMA_VERSION) {
+    const tx = db.transaction([ENTRY_STORE, META_STORE, QUARANTINE_STORE], 'readwrite');
+    const entryStore = tx.objectStore(ENTRY_STORE);
+    entryStore.clear();
+    entries.forEach(entry => entryStore.put(entry));
+    quarantined.forEach(q => tx.objectStore(QUARANTINE_STORE).add(q));
+    tx.objectStore(META_STORE).put(CURRENT_SCHEMA_VERSION, 'schema_version');
+    await transactionDone(tx);
+    if (quarantined.length > 0) {
+      console.warn(`Quarantined ${quarantined.length} invalid journal record(s)`, quarantined);
+    }
+  }
+
+  if (!order) return entries;
+
+  const byId = new Map(entries.map(e => [e.id, e]));
+  const ordered = order.map(id => byId.get(id)).filter((e): e is FoodEntry => !!e);
+  const unordered = entries.filter(e => !order.includes(e.id));
+  return [...ordered, ...unordered];
+};
+
+export const loadQuarantine = async (): Promise<QuarantinedRecord[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(QUARANTINE_STORE, 'readonly');
+  return requestToPromise(tx.objectStore(QUARANTINE_STORE).getAll() as IDBRequest<QuarantinedRecord[]>);
+};
+
+/** Loads the recycle bin, migrating its records the same way as entries. */
+export const loadTrash = async (): Promise<FoodEntry[]> => {
+  const db = await openDatabase();
+  const readTx = db.transaction([TRASH_STORE, META_STORE], 'readonly');
+  const [records, version] = await Promise.all([
+    requestToPromise(readTx.objectStore(TRASH_STORE).getAll() as IDBRequest<unknown[]>),
+    requestToPromise(readTx.objectStore(META_STORE).get('trash_schema_version') as IDBRequest<number | undefined>)
+  ]);
+
+  const { entries, quarantined, changed } = migrateEntries(records, version ?? CURRENT_SCHEMA_VERSION);
+  if (changed || version !== CURRENT_SCHEMA_VERSION) {
+    const tx = db.transaction([TRASH_STORE, META_STORE, QUARANTINE_STORE], 'readwrite');
+    const trashStore = tx.objectStore(TRASH_STORE);
+    trashStore.clear();
+    entries.forEach(entry => trashStore.put(entry));
+    quarantined.forEach(q => tx.objectStore(QUARANTINE_STORE).add(q));
+    tx.objectStore(META_STORE).put(CURRENT_SCHEMA_VERSION, 'trash_schema_version');
+    await transactionDone(tx);
+  }
+
+  return entries.sort((a, b) => (b.deletedAt || '').localeCompare(a.deletedAt || ''));
+};
+
+const collectImageIds = (record: unknown): string[] => {
+  const images = (record as { images?: unknown } | null)?.images;
+  if (!Array.isArray(images)) return [];
+  return images.filter((src): src is string => typeof src === 'string' && isImageRef(src)).map(src => src.slice(IMAGE_REF_PREFIX.length));
+};
+
+// Data URLs already written to the image store, so repeated saves reuse their refs
+const externalizedImages = new Map<string, string>();
+// Thumbnails produced at upload time, stored alongside their data URL once it is externalized
+const pendingThumbnails = new Map<string, Blob>();
+
+export const registerThumbnail = (dataUrl: string, thumbnail: Blob) => {
+  pendingThumbnails.set(dataUrl, thumbnail);
+};
+
+// A collected blob's data URL can come back (e.g. through undo) and must then be written again
+const forgetExternalized = (ref: string) => {
+  externalizedImages.forEach((known, src) => {
+    if (known === ref) externalizedImages.delete(src);
+  });
+};
+
+const createImageId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+const externalizeImages = async (entries: FoodEntry[], pending: Map<string, StoredImage>): Promise<FoodEntry[]> => {
+  return Promise.all(entries.map(async entry => {
+    const images = await Promise.all((entry.images || []).map(async src => {
+      if (!src.startsWith('data:')) return src;
+      const known = externalizedImages.get(src);
+      if (known) return known;
+      let image = pending.get(src);
+      if (!image) {
+        const blob = await (await fetch(src)).blob();
+        image = { id: createImageId(), blob, thumbnail: pendingThumbnails.get(src) };
+        pending.set(src, image);
+      }
+      return IMAGE_REF_PREFIX + image.id;
+    }));
+    return { ...entry, images };
+  }));
+};
+
+export interface JournalWrite {
+  entries?: FoodEntry[];
+  trash?: FoodEntry[];
+}
+
+const writeJournal = async (changes: JournalWrite, retainedImages: string[]): Promise<void> => {
+  // Convert inline data URLs to Blobs before opening the transaction,
+  // since awaiting anything else inside it would auto-commit it.
+  const pending = new Map<string, StoredImage>();
+  const storedEntries = changes.entries && await externalizeImages(changes.entries, pending);
+  const storedTrash = changes.trash && await externalizeImages(changes.trash, pending);
+
+  const db = await openDatabase();
+  const tx = db.transaction([ENTRY_STORE, TRASH_STORE, DRAFT_STORE, IMAGE_STORE, META_STORE, QUARANTINE_STORE], 'readwrite');
+  const imageStore = tx.objectStore(IMAGE_STORE);
+
+  if (storedEntries) {
+    const entryStore = tx.objectStore(ENTRY_STORE);
+    entryStore.clear();
+    storedEntries.forEach(entry => entryStore.put(entry));
+    tx.objectStore(META_STORE).put(storedEntries.map(e => e.id), 'entry_order');
+    tx.objectStore(META_STORE).put(CURRENT_SCHEMA_VERSION, 'schema_version');
+  }
+  if (storedTrash) {
+    const trashStore = tx.objectStore(TRASH_STORE);
+    trashStore.clear();
+    storedTrash.forEach(entry => trashStore.put(entry));
+    tx.objectStore(META_STORE).put(CURRENT_SCHEMA_VERSION, 'trash_schema_version');
+  }
+  pending.forEach(image => imageStore.put(image));
+
+  // Drop images no longer referenced by any entry, trashed entry, draft,
+  // quarantined record or retained ref. Reads inside the transaction see the writes above.
+  const referenced = new Set(collectImageIds({ images: retainedImages }));
+  const sources = [ENTRY_STORE, TRASH_STORE].map(name => tx.objectStore(name).getAll());
+  const draftRequest = tx.objectStore(DRAFT_STORE).getAll();
+  const quarantineRequest = tx.objectStore(QUARANTINE_STORE).getAll();
+  quarantineRequest.onsuccess = () => {
+    sources.forEach(request => (request.result as unknown[]).forEach(record => collectImageIds(record).forEach(id => referenced.add(id))));
+    (draftRequest.result as EntryDraft[]).forEach(d => collectImageIds(d.form).forEach(id => referenced.add(id)));
+    (quarantineRequest.result as QuarantinedRecord[]).forEach(q => collectImageIds(q.record).forEach(id => referenced.add(id)));
+    const keysRequest = imageStore.getAllKeys();
+    keysRequest.onsuccess = () => {
+      (keysRequest.result as string[]).forEach(id => {
+        if (!referenced.has(id)) {
+          imageStore.delete(id);
+          releaseImageUrl(IMAGE_REF_PREFIX + id);
+          forgetExternalized(IMAGE_REF_PREFIX + id);
+        }
+      });
+    };
+  };
+
+  await transactionDone(tx);
+  pending.forEach((image, src) => {
+    externalizedImages.set(src, IMAGE_REF_PREFIX + image.id);
+    pendingThumbnails.delete(src);
+  });
+};
+
+let writeQueue: Promise<void> = Promise.resolve();
+
+/**
+ * Persists the entry list and/or the recycle bin in one transaction. Writes
+ * are serialized so a slow save can never land after a newer one. Images in
+ * `retainedImages` survive cleanup even when nothing saved uses them
+ * (e.g. entries that undo can restore).
+ */
+export const saveJournal = (changes: JournalWrite, retainedImages: string[] = []): Promise<void> => {
+  const next = writeQueue.catch(() => {}).then(() => writeJournal(changes, retainedImages));
+  writeQueue = next;
+  return next;
+};
+
+// --- Drafts ---
+
+export const loadDrafts = async (): Promise<EntryDraft[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(DRAFT_STORE, 'readonly');
+  const drafts = await requestToPromise(tx.objectStore(DRAFT_STORE).getAll() as IDBRequest<EntryDraft[]>);
+  return drafts.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+export const saveDraft = async (draft: EntryDraft): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(DRAFT_STORE, 'readwrite');
+  tx.objectStore(DRAFT_STORE).put(draft);
+  return transactionDone(tx);
+};
+
+export const deleteDraft = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(DRAFT_STORE, 'readwrite');
+  tx.objectStore(DRAFT_STORE).delete(id);
+  return transactionDone(tx);
+};
+
+// --- Images ---
+
+// Object URLs keyed by ref, with a `#thumb` suffix for thumbnails
+const objectUrls = new Map<string, string>();
+
+const urlKey = (ref: string, variant: ImageVariant) => variant === 'thumb' ? `${ref}#thumb` : ref;
+
+const releaseImageUrl = (ref: string) => {
+  [urlKey(ref, 'full'), urlKey(ref, 'thumb')].forEach(key => {
+    const url = objectUrls.get(key);
+    if (url) {
+      URL.revokeObjectURL(url);
+      objectUrls.delete(key);
+    }
+  });
+};
+
+const getStoredImage = async (ref: string): Promise<StoredImage | undefined> => {
+  const db = await openDatabase();
+  const tx = db.transaction(IMAGE_STORE, 'readonly');
+  return requestToPromise(tx.objectStore(IMAGE_STORE).get(ref.slice(IMAGE_REF_PREFIX.length)) as IDBRequest<StoredImage | undefined>);
+};
+
+export const getImageBlob = async (ref: string): Promise<Blob | undefined> => {
+  return (await getStoredImage(ref))?.blob;
+};
+
+// Generates and stores a thumbnail for an older image; falls back to the full image on failure
+const backfillThumbnail = async (image: StoredImage): Promise<Blob> => {
+  try {
+    const thumbnail = await createThumbnail(image.blob);
+    const db = await openDatabase();
+    const tx = db.transaction(IMAGE_STORE, 'readwrite');
+    const store = tx.objectStore(IMAGE_STORE);
+    // Only update the record if it still exists, so cleanup is never undone
+    const current = await requestToPromise(store.get(image.id) as IDBRequest<StoredImage | undefined>);
+    if (current) store.put({ ...current, thumbnail });
+    await transactionDone(tx);
+    return thumbnail;
+  } catch (e) {
+    console.warn("Thumbnail generation failed", e);
+    return image.blob;
+  }
+};
+
+/** Returns a cached object URL if the ref has already been resolved this session. */
+export const peekImageUrl = (ref: string, variant: ImageVariant = 'full'): string | undefined => {
+  return objectUrls.get(urlKey(ref, variant)) ?? (variant === 'thumb' ? objectUrls.get(ref) : undefined);
+};
+
+export const resolveImageUrl = async (ref: string, variant: ImageVariant = 'full'): Promise<string | undefined> => {
+  const key = urlKey(ref, variant);
+  const cached = objectUrls.get(key);
+  if (cached) return cached;
+  const image = await getStoredImage(ref);
+  if (!image) return undefined;
+  const blob = variant === 'thumb' ? image.thumbnail ?? await backfillThumbnail(image) : image.blob;
+  const existing = objectUrls.get(key);
+  if (existing) return existing;
+  const url = URL.createObjectURL(blob);
+  objectUrls.set(key, url);
+  return url;
+};
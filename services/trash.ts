@@ -0,0 +1,49 @@
+import { FoodEntry } from '../types';
+
+// Recycle bin rules. Entries removed from the journal keep all their data
+// plus a deletedAt stamp, and are purged once older than the retention period.
+
+export const DEFAULT_RETENTION_DAYS = 30;
+export const RETENTION_OPTIONS = [7, 30, 90];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Stamps removed entries and puts them at the top of the bin. */
+export const moveToTrash = (removed: FoodEntry[], trash: FoodEntry[], now = new Date()): FoodEntry[] => {
+  const deletedAt = now.toISOString();
+  const removedIds = new Set(removed.map(e => e.id));
+  return [...removed.map(entry => ({ ...entry, deletedAt })), ...trash.filter(e => !removedIds.has(e.id))];
+};
+
+/**
+ * Takes entries out of the bin, without their deletedAt stamp. An entry whose
+ * id has since been taken in the journal (e.g. by an import) comes back
+ * under a new id rather than as a duplicate.
+ */
+export const restoreFromTrash = (trash: FoodEntry[], ids: string[], liveIds: string[] = []): { restored: FoodEntry[]; remaining: FoodEntry[] } => {
+  const selected = new Set(ids);
+  const taken = new Set(liveIds);
+  let nextId = Date.now();
+  const restored = trash.filter(e => selected.has(e.id)).map(({ deletedAt, ...entry }) => {
+    if (!taken.has(entry.id)) return entry;
+    while (taken.has(String(nextId))) nextId++;
+    taken.add(String(nextId));
+    return { ...entry, id: String(nextId) };
+  });
+  return { restored, remaining: trash.filter(e => !selected.has(e.id)) };
+};
+
+export const daysUntilPurge = (entry: FoodEntry, retentionDays: number, now = new Date()): number => {
+  const deletedAt = new Date(entry.deletedAt || now).getTime();
+  return Math.max(0, Math.ceil((deletedAt + retentionDays * DAY_MS - now.getTime()) / DAY_MS));
+};
+
+export const purgeExpired = (trash: FoodEntry[], retentionDays: number, now = new Date()): { kept: FoodEntry[]; purged: FoodEntry[] } => {
+  const cutoff = now.getTime() - retentionDays * DAY_MS;
+  const kept: FoodEntry[] = [];
+  const purged: FoodEntry[] = [];
+  trash.forEach(entry => {
+    (new Date(entry.deletedAt || now).getTime() <= cutoff ? purged : kept).push(entry);
+  });
+  return { kept, purged };
+};
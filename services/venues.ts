@@ -0,0 +1,153 @@
+import { FoodEntry, Place, Venue } from '../types';
+import { isIsoTimestamp } from '../utils/date';
+import { distanceMeters } from '../utils/geo';
+import { UNKNOWN_LOCATION, entryPlace, hasCoordinates, normalizePlace } from './places';
+
+// Venues group repeat visits to the same restaurant. Entries point at one
+// through `venueId` but keep their own location text and place, so editing
+// or merging venues never rewrites what a past entry recorded. The venue
+// list is stored in the meta store next to the tag list.
+
+export const PRICE_LEVELS = [1, 2, 3, 4];
+
+export const priceLabel = (level: number) => '¥'.repeat(level);
+
+// Same-named places at most this far apart count as one venue when linking
+const SAME_VENUE_METERS = 150;
+// Differently named venues this close are offered as possible duplicates
+const NEARBY_DUPLICATE_METERS = 30;
+
+const normalizeName = (name: string) => name.trim().toLowerCase().replace(/[\s·・\-()（）]/g, '');
+
+const createVenueId = () => `v-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const venueFromPlace = (place: Place, now = new Date().toISOString()): Venue => ({
+  ...normalizePlace(place),
+  id: createVenueId(),
+  createdAt: now,
+  updatedAt: now
+});
+
+/** The venue's location as an entry place. */
+export const venuePlace = (venue: Venue): Place => normalizePlace(venue);
+
+export const isVenue = (value: unknown): value is Venue => {
+  const v = value as Venue | null;
+  return !!v && typeof v === 'object' && typeof v.id === 'string' && !!v.id && typeof v.name === 'string'
+    && isIsoTimestamp(v.createdAt) && isIsoTimestamp(v.updatedAt)
+    && (v.priceLevel === undefined || PRICE_LEVELS.includes(v.priceLevel));
+};
+
+/** Same POI when both came from a map provider, otherwise the same name at (roughly) the same spot. */
+export const isSameVenue = (venue: Place, place: Place): boolean => {
+  if (venue.poiId && place.poiId) return venue.poiId === place.poiId && venue.provider === place.provider;
+  if (normalizeName(venue.name) !== normalizeName(place.name)) return false;
+  return !(hasCoordinates(venue) && hasCoordinates(place)) || distanceMeters(venue, place) <= SAME_VENUE_METERS;
+};
+
+const hasLocation = (entry: FoodEntry) => !!entry.location.trim() && entry.location !== UNKNOWN_LOCATION;
+
+/**
+ * Points entries without a known venue at a matching one, creating venues
+ * for places seen for the first time. Returns the inputs as they were when
+ * nothing needed linking.
+ */
+export const linkVenues = (entries: FoodEntry[], venues: Venue[]): { entries: FoodEntry[]; venues: Venue[] } => {
+  const known = new Set(venues.map(v => v.id));
+  const nextVenues = [...venues];
+  let changed = false;
+
+  const linked = entries.map(entry => {
+    if ((entry.venueId && known.has(entry.venueId)) || !hasLocation(entry)) return entry;
+    const place = entryPlace(entry);
+    let venue = nextVenues.find(v => isSameVenue(v, place));
+    if (!venue) {
+      venue = venueFromPlace(place, entry.createdAt);
+      nextVenues.push(venue);
+      known.add(venue.id);
+    }
+    changed = true;
+    return { ...entry, venueId: venue.id };
+  });
+
+  return changed ? { entries: linked, venues: nextVenues } : { entries, venues };
+};
+
+/** Venues from `incoming` (e.g. a backup) whose ids aren't known yet, appended to `venues`. */
+export const addVenues = (venues: Venue[], incoming: Venue[]): Venue[] => {
+  const known = new Set(venues.map(v => v.id));
+  const added = incoming.filter(v => !known.has(v.id));
+  return added.length > 0 ? [...venues, ...added] : venues;
+};
+
+/** Every visit to a venue, oldest first. */
+export const venueVisits = (entries: FoodEntry[], venueId: string): FoodEntry[] =>
+  entries.filter(e => e.venueId === venueId).sort((a, b) => a.eatenAt.localeCompare(b.eatenAt));
+
+export const visitCounts = (entries: FoodEntry[]): Map<string, number> => {
+  const counts = new Map<string, number>();
+  entries.forEach(e => {
+    if (e.venueId) counts.set(e.venueId, (counts.get(e.venueId) ?? 0) + 1);
+  });
+  return counts;
+};
+
+/** Autocomplete candidates: name or address matches (everything for an empty query), most visited first. */
+export const suggestVenues = (venues: Venue[], entries: FoodEntry[], query: string, limit = 5): Venue[] => {
+  const needle = normalizeName(query);
+  const counts = visitCounts(entries);
+  return venues
+    .filter(v => !needle || normalizeName(v.name).includes(needle) || normalizeName(v.address ?? '').includes(needle))
+    .sort((a, b) => (counts.get(b.id) ?? 0) - (counts.get(a.id) ?? 0))
+    .slice(0, limit);
+};
+
+/** Other venues that are probably the same place: the same name, or practically the same position. */
+export const likelyDuplicates = (venue: Venue, venues: Venue[]): Venue[] => {
+  const name = normalizeName(venue.name);
+  return venues.filter(v => v.id !== venue.id && (
+    normalizeName(v.name) === name ||
+    (hasCoordinates(v) && hasCoordinates(venue) && distanceMeters(v, venue) <= NEARBY_DUPLICATE_METERS)
+  ));
+};
+
+export interface VenueJournal {
+  venues: Venue[];
+  entries: FoodEntry[];
+  trash: FoodEntry[];
+}
+
+/**
+ * Folds `sourceIds` into the venue `targetId`: visits (trashed ones too) move
+ * over, details the target lacks are taken from the sources, notes are
+ * appended, and the sources are removed.
+ */
+export const mergeVenues = (journal: VenueJournal, targetId: string, sourceIds: string[]): VenueJournal => {
+  const target = journal.venues.find(v => v.id === targetId);
+  const sources = journal.venues.filter(v => v.id !== targetId && sourceIds.includes(v.id));
+  if (!target || sources.length === 0) return journal;
+
+  const merged: Venue = { ...target, updatedAt: new Date().toISOString() };
+  sources.forEach(source => {
+    const fill = <K extends keyof Venue>(key: K) => {
+      if (merged[key] === undefined && source[key] !== undefined) merged[key] = source[key];
+    };
+    if (!hasCoordinates(merged) && hasCoordinates(source)) {
+      merged.lng = source.lng;
+      merged.lat = source.lat;
+    }
+    (['address', 'city', 'poiId', 'provider', 'cuisine', 'priceLevel'] as const).forEach(fill);
+    if (source.notes?.trim()) merged.notes = [merged.notes?.trim(), source.notes.trim()].filter(Boolean).join('\n');
+  });
+
+  const moved = new Set(sources.map(v => v.id));
+  const retarget = (list: FoodEntry[]) => list.some(e => e.venueId && moved.has(e.venueId))
+    ? list.map(e => e.venueId && moved.has(e.venueId) ? { ...e, venueId: targetId } : e)
+    : list;
+
+  return {
+    venues: journal.venues.filter(v => !moved.has(v.id)).map(v => v.id === targetId ? merged : v),
+    entries: retarget(journal.entries),
+    trash: retarget(journal.trash)
+  };
+};
@@ -0,0 +1,114 @@
+import { Place, WeatherInfo } from '../types';
+import { LngLat } from '../utils/geo';
+import { getMapProvider } from './mapProvider';
+import { placeCoordinates } from './places';
+import { PreferenceMap, getPreference, setPreference } from './storage';
+import { createOpenMeteoSource } from './openMeteoWeather';
+import { createMockWeatherSource } from './mockWeather';
+
+// Weather for an entry's own time and place. Historical lookups go through a
+// pluggable source (Open-Meteo by default, `?weather=mock` for offline work);
+// "right here, right now" still uses the map provider's live observation.
+// Results are cached per ~1 km cell and hour.
+
+export interface WeatherSource {
+  id: string;
+  name: string;
+  /** Weather at a point during the hour containing `at`; rejects with a user-facing message. */
+  lookup: (point: LngLat, at: Date) => Promise<WeatherInfo>;
+}
+
+export interface WeatherRequest {
+  at: Date;
+  place?: Place; // Without coordinates, the device's current position is used
+}
+
+const SOURCES: Record<string, () => WeatherSource> = {
+  'open-meteo': createOpenMeteoSource,
+  mock: createMockWeatherSource
+};
+
+const DEFAULT_SOURCE = 'open-meteo';
+
+const CACHE_KEY = 'weather_cache';
+const CACHE_LIMIT = 200;
+const HOUR_MS = 60 * 60 * 1000;
+// Hours that haven't finished yet can still change
+const LIVE_TTL_MS = 30 * 60 * 1000;
+// Entries logged within this window of now count as "now"
+const LIVE_WINDOW_MS = HOUR_MS;
+
+let activeSource: WeatherSource | null = null;
+
+export const getWeatherSource = (): WeatherSource => {
+  if (!activeSource) {
+    const requested = new URLSearchParams(window.location.search).get('weather') || DEFAULT_SOURCE;
+    activeSource = (SOURCES[requested] || SOURCES[DEFAULT_SOURCE])();
+  }
+  return activeSource;
+};
+
+// Keyed by the service that produced the reading, so live observations and source lookups never mix
+const cacheKey = (sourceId: string, point: LngLat, at: Date) =>
+  `${sourceId}:${point.lat.toFixed(2)},${point.lng.toFixed(2)}@${at.toISOString().slice(0, 13)}`;
+
+type CachedWeather = PreferenceMap['weather_cache'][string];
+
+const isFresh = (cached: CachedWeather, at: Date) => {
+  const hourEnd = Math.floor(at.getTime() / HOUR_MS) * HOUR_MS + HOUR_MS;
+  return cached.timestamp >= hourEnd || Date.now() - cached.timestamp < LIVE_TTL_MS;
+};
+
+const readCache = async (sourceId: string, point: LngLat, at: Date): Promise<WeatherInfo | null> => {
+  try {
+    const cached = (await getPreference(CACHE_KEY))?.[cacheKey(sourceId, point, at)];
+    if (cached && isFresh(cached, at)) return cached.data;
+  } catch (e) {
+    console.warn("Weather cache read failed", e);
+  }
+  return null;
+};
+
+const writeCache = async (sourceId: string, point: LngLat, at: Date, data: WeatherInfo) => {
+  const cache = { ...(await getPreference(CACHE_KEY)), [cacheKey(sourceId, point, at)]: { timestamp: Date.now(), data } };
+  // Keep the most recently fetched cells
+  const kept = Object.entries(cache).sort(([, a], [, b]) => b.timestamp - a.timestamp).slice(0, CACHE_LIMIT);
+  await setPreference(CACHE_KEY, Object.fromEntries(kept));
+};
+
+const placeLabel = (place: Place) => place.city || place.name;
+
+/** Cached weather for an entry, without touching the network or asking for location. */
+export const cachedWeather = async ({ at, place }: WeatherRequest): Promise<WeatherInfo | null> => {
+  const point = placeCoordinates({ place });
+  if (!point) return null;
+  const data = await readCache(getWeatherSource().id, point, at);
+  return data && { ...data, locationName: placeLabel(place!) };
+};
+
+export const resolveWeather = async ({ at, place }: WeatherRequest): Promise<WeatherInfo> => {
+  let point = placeCoordinates({ place });
+  let locationName = place && placeLabel(place);
+  const source = getWeatherSource();
+  let sourceId = source.id;
+  let live: (() => Promise<WeatherInfo>) | null = null;
+
+  if (!point) {
+    const provider = getMapProvider();
+    await provider.ready();
+    const current = await provider.currentPosition();
+    point = current.position;
+    locationName = current.area || placeLabel(current.place);
+    if (Math.abs(Date.now() - at.getTime()) < LIVE_WINDOW_MS) {
+      sourceId = provider.id;
+      live = () => provider.liveWeather(current);
+    }
+  }
+
+  const cached = await readCache(sourceId, point, at);
+  if (cached) return { ...cached, locationName };
+
+  const data = live ? await live() : await source.lookup(point, at);
+  writeCache(sourceId, point, at, data).catch(e => console.warn("Weather cache write failed", e));
+  return { ...data, locationName };
+};
@@ -1,21 +1,64 @@
 export interface WeatherInfo {
-  temperature: number;
-  condition: string; // 'Sunny', 'Cloudy', 'Rainy', 'Snowy', 'Windy'
-  code: number; // WMO code
+  temperature: number; // °C, whatever the display unit
+  condition: string; // Provider's own wording, e.g. '小雨'; the UI labels by code
+  code: number; // WMO code, see utils/weatherCodes
   locationName?: string; // Cache the location name for the weather
+  humidity?: number; // Relative humidity, %
+  windSpeed?: number; // km/h
+  feelsLike?: number; // Apparent temperature, °C
+  isDay?: boolean;
+}
+
+export interface Place {
+  name: string;
+  address?: string;
+  lng?: number; // GCJ-02 inside mainland China (as AMap returns), WGS-84 elsewhere
+  lat?: number;
+  city?: string;
+  poiId?: string; // Id assigned by the map provider that resolved the place
+  provider?: string; // e.g. 'amap'
+}
+
+// A restaurant, café or shop that entries point at, so repeat visits group together
+export interface Venue extends Place {
+  id: string;
+  cuisine?: string; // Free text, e.g. '川菜'
+  priceLevel?: number; // 1–4, shown as ¥ to ¥¥¥¥
+  notes?: string;
+  createdAt: string; // ISO 8601
+  updatedAt: string; // ISO 8601
+}
+
+export type RatingDimension = 'taste' | 'ambience' | 'service' | 'value' | 'presentation';
+
+// One dish of a meal with several
+export interface Dish {
+  id: string;
+  name: string;
+  price?: number; // In the user's currency, no unit stored
+  rating?: number; // 0.5–5 in half steps
+  note?: string;
+  imageIndices?: number[]; // Positions in the entry's `images` showing this dish
 }
 
 export interface FoodEntry {
   id: string;
   title: string;
-  location: string;
-  date: string;
+  location: string; // Display name; mirrors place.name when a place is set
+  place?: Place; // Absent on entries that only have free-text locations
+  venueId?: string; // Venue the meal was at; location/place keep what was recorded at the time
+  eatenAt: string; // ISO 8601 timestamp of the meal
+  createdAt: string; // ISO 8601
+  updatedAt: string; // ISO 8601
   images: string[]; // Changed from single imageUrl to array
   coverImageIndex: number; // Index of the cover image
   tags: string[];
-  rating: number; // 1-5
+  rating: number; // Overall 0–5; the weighted mean of `ratings` when those are set
+  ratings?: Partial<Record<RatingDimension, number>>; // Per-dimension scores in half steps, 0.5–5
   description: string;
+  dishes?: Dish[];
   weather?: WeatherInfo;
+  deletedAt?: string; // ISO 8601, set while the entry sits in the recycle bin
 }
 
 export enum ViewState {
@@ -24,7 +67,10 @@ export enum ViewState {
   ADD = 'ADD',
   PROFILE = 'PROFILE',
   DETAIL = 'DETAIL',
-  EDIT = 'EDIT'
+  EDIT = 'EDIT',
+  TRASH = 'TRASH',
+  MAP = 'MAP',
+  VENUE = 'VENUE'
 }
 
 export interface MiniCapsuleProps {
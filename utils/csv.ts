@@ -0,0 +1,63 @@
+// RFC 4180 CSV reading/writing. Fields are quoted only when needed; the
+// output starts with a BOM so spreadsheet apps detect UTF-8 (Chinese text).
+
+const BOM = '\uFEFF';
+
+const quoteField = (value: string) => /[",\r\n]/.test(value) || /^\s|\s$/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// Spreadsheet apps evaluate cells starting with these as formulas; a leading
+// apostrophe makes them show the text instead
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+/** Prefixes user text that would be read as a formula with `'`. */
+export const escapeFormula = (value: string) => FORMULA_START.test(value) ? `'${value}` : value;
+
+/** Undoes escapeFormula when reading a file back. */
+export const unescapeFormula = (value: string) => value.startsWith("'") && FORMULA_START.test(value.slice(1)) ? value.slice(1) : value;
+
+export const toCsv = (rows: string[][]): string => BOM + rows.map(row => row.map(quoteField).join(',')).join('\r\n') + '\r\n';
+
+/** Parses CSV text into rows of fields; blank lines are dropped. Also accepts semicolon- or tab-separated files. */
+export const parseCsv = (text: string): string[][] => {
+  const input = text.startsWith(BOM) ? text.slice(1) : text;
+  const firstLine = input.slice(0, input.search(/\r?\n|$/));
+  const delimiter = [',', ';', '\t'].reduce((best, d) => firstLine.split(d).length > firstLine.split(best).length ? d : best, ',');
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const c = input[i];
+    if (inQuotes) {
+      if (c === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        inQuotes = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"' && field === '') {
+      inQuotes = true;
+    } else if (c === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += c;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(f => f.trim() !== ''));
+};
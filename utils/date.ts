@@ -0,0 +1,54 @@
+// Date helpers: entries store ISO 8601 timestamps and are formatted only at display time.
+
+const displayLocale = (): string => {
+  if (typeof navigator !== 'undefined' && navigator.language) return navigator.language;
+  return 'zh-CN';
+};
+
+/** Short date for cards, e.g. "10月12日"; the year is added when it isn't the current one. */
+export const formatShortDate = (iso: string): string => {
+  const date = new Date(iso);
+  if (isNaN(date.getTime())) return '';
+  const sameYear = date.getFullYear() === new Date().getFullYear();
+  return date.toLocaleDateString(displayLocale(), {
+    year: sameYear ? undefined : 'numeric',
+    month: 'short',
+    day: 'numeric'
+  });
+};
+
+/** Full date and time for the detail page, e.g. "2026年10月12日 09:30". */
+export const formatDateTime = (iso: string): string => {
+  const date = new Date(iso);
+  if (isNaN(date.getTime())) return '';
+  return date.toLocaleString(displayLocale(), {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/** Converts an ISO timestamp to the local "YYYY-MM-DDTHH:mm" value used by <input type="datetime-local">. */
+export const toDateTimeInputValue = (iso: string): string => {
+  const date = new Date(iso);
+  if (isNaN(date.getTime())) return '';
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+/** Local calendar day ("YYYY-MM-DD") of an ISO timestamp, as used by <input type="date">. */
+export const toDateInputValue = (iso: string): string => toDateTimeInputValue(iso).slice(0, 10);
+
+/** Inverse of toDateTimeInputValue; returns null for empty or invalid input. */
+export const fromDateTimeInputValue = (value: string): string | null => {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+export const isIsoTimestamp = (value: unknown): value is string => {
+  return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}T/.test(value) && !isNaN(Date.parse(value));
+};
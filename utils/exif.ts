@@ -0,0 +1,213 @@
+import { asBlobPart } from './zip';
+
+// Minimal EXIF reader for JPEG photos: capture time, GPS position and
+// orientation. Also blanks the GPS block in place for privacy-minded exports.
+
+export interface PhotoMetadata {
+  takenAt?: string; // ISO 8601
+  latitude?: number; // WGS-84, as recorded by the camera
+  longitude?: number;
+  orientation?: number; // EXIF orientation 1–8, 1 meaning upright
+}
+
+const TAG_ORIENTATION = 0x0112;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_OFFSET_TIME_ORIGINAL = 0x9011;
+const TAG_GPS_LATITUDE_REF = 0x0001;
+const TAG_GPS_LATITUDE = 0x0002;
+const TAG_GPS_LONGITUDE_REF = 0x0003;
+const TAG_GPS_LONGITUDE = 0x0004;
+
+// Byte size of one value per TIFF field type
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+// The metadata block sits at the start of the file; this covers it with room to spare
+const HEADER_BYTES = 256 * 1024;
+
+interface IfdEntry {
+  tag: number;
+  type: number;
+  count: number;
+  valueOffset: number; // Absolute offset of the value within the view
+}
+
+interface TiffReader {
+  view: DataView;
+  start: number; // Offset of the TIFF header
+  little: boolean;
+}
+
+/** Locates the TIFF header inside a JPEG's APP1 "Exif" segment. */
+const findTiff = (view: DataView): TiffReader | null => {
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xFFD8) return null;
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    if ((marker & 0xFF00) !== 0xFF00 || marker === 0xFFDA) return null; // Image data reached
+    const length = view.getUint16(offset + 2);
+    // "Exif\0\0"
+    if (marker === 0xFFE1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966 && view.getUint16(offset + 8) === 0) {
+      const start = offset + 10;
+      if (start + 8 > view.byteLength) return null;
+      const order = view.getUint16(start);
+      if (order !== 0x4949 && order !== 0x4D4D) return null;
+      return { view, start, little: order === 0x4949 };
+    }
+    offset += 2 + length;
+  }
+  return null;
+};
+
+const readEntries = (tiff: TiffReader, ifdOffset: number): IfdEntry[] => {
+  const { view, start, little } = tiff;
+  const base = start + ifdOffset;
+  if (ifdOffset <= 0 || base + 2 > view.byteLength) return [];
+  const count = view.getUint16(base, little);
+  const entries: IfdEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    const at = base + 2 + i * 12;
+    if (at + 12 > view.byteLength) break;
+    const type = view.getUint16(at + 2, little);
+    const valueCount = view.getUint32(at + 4, little);
+    const size = (TYPE_SIZES[type] || 1) * valueCount;
+    entries.push({
+      tag: view.getUint16(at, little),
+      type,
+      count: valueCount,
+      valueOffset: size > 4 ? start + view.getUint32(at + 8, little) : at + 8
+    });
+  }
+  return entries;
+};
+
+const readShort = (tiff: TiffReader, entry: IfdEntry) => tiff.view.getUint16(entry.valueOffset, tiff.little);
+
+const readLong = (tiff: TiffReader, entry: IfdEntry) => tiff.view.getUint32(entry.valueOffset, tiff.little);
+
+const readAscii = (tiff: TiffReader, entry: IfdEntry): string => {
+  let text = '';
+  for (let i = 0; i < entry.count && entry.valueOffset + i < tiff.view.byteLength; i++) {
+    const code = tiff.view.getUint8(entry.valueOffset + i);
+    if (code === 0) break;
+    text += String.fromCharCode(code);
+  }
+  return text.trim();
+};
+
+const readRationals = (tiff: TiffReader, entry: IfdEntry): number[] => {
+  const values: number[] = [];
+  for (let i = 0; i < entry.count; i++) {
+    const at = entry.valueOffset + i * 8;
+    if (at + 8 > tiff.view.byteLength) break;
+    const denominator = tiff.view.getUint32(at + 4, tiff.little);
+    values.push(denominator ? tiff.view.getUint32(at, tiff.little) / denominator : 0);
+  }
+  return values;
+};
+
+const pointer = (tiff: TiffReader, entries: IfdEntry[], tag: number): number => {
+  const entry = entries.find(e => e.tag === tag);
+  return entry ? readLong(tiff, entry) : 0;
+};
+
+// "2024:05:01 12:30:00" plus an optional "+08:00"; without an offset the camera's time is taken as local
+const parseExifDate = (value: string, offset?: string): string | undefined => {
+  const match = value.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/);
+  if (!match || match[1] === '0000') return undefined;
+  const [, y, mo, d, h, mi, s] = match;
+  const zone = offset && /^[+-]\d{2}:\d{2}$/.test(offset) ? offset : '';
+  const date = new Date(`${y}-${mo}-${d}T${h}:${mi}:${s}${zone}`);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+};
+
+const toDegrees = ([deg = 0, min = 0, sec = 0]: number[], ref: string) => {
+  const value = deg + min / 60 + sec / 3600;
+  return ref === 'S' || ref === 'W' ? -value : value;
+};
+
+export const readExif = (buffer: ArrayBuffer): PhotoMetadata => {
+  const tiff = findTiff(new DataView(buffer));
+  if (!tiff) return {};
+  const metadata: PhotoMetadata = {};
+
+  try {
+    const ifd0 = readEntries(tiff, tiff.view.getUint32(tiff.start + 4, tiff.little));
+    const orientation = ifd0.find(e => e.tag === TAG_ORIENTATION);
+    if (orientation) {
+      const value = readShort(tiff, orientation);
+      if (value >= 1 && value <= 8) metadata.orientation = value;
+    }
+
+    const exif = readEntries(tiff, pointer(tiff, ifd0, TAG_EXIF_IFD));
+    const dateTime = exif.find(e => e.tag === TAG_DATE_TIME_ORIGINAL);
+    const offsetTime = exif.find(e => e.tag === TAG_OFFSET_TIME_ORIGINAL);
+    if (dateTime) metadata.takenAt = parseExifDate(readAscii(tiff, dateTime), offsetTime && readAscii(tiff, offsetTime));
+
+    const gps = readEntries(tiff, pointer(tiff, ifd0, TAG_GPS_IFD));
+    const find = (tag: number) => gps.find(e => e.tag === tag);
+    const ref = (tag: number) => {
+      const entry = find(tag);
+      return entry ? readAscii(tiff, entry) : '';
+    };
+    const lat = find(TAG_GPS_LATITUDE);
+    const lng = find(TAG_GPS_LONGITUDE);
+    if (lat && lng) {
+      const latitude = toDegrees(readRationals(tiff, lat), ref(TAG_GPS_LATITUDE_REF));
+      const longitude = toDegrees(readRationals(tiff, lng), ref(TAG_GPS_LONGITUDE_REF));
+      // 0,0 is what many cameras write when they had no fix
+      if ((latitude !== 0 || longitude !== 0) && Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180) {
+        metadata.latitude = latitude;
+        metadata.longitude = longitude;
+      }
+    }
+  } catch (e) {
+    // Truncated or malformed metadata: keep whatever was read so far
+    console.warn("EXIF parse failed", e);
+  }
+
+  return metadata;
+};
+
+export const readPhotoMetadata = async (file: Blob): Promise<PhotoMetadata> => {
+  return readExif(await file.slice(0, HEADER_BYTES).arrayBuffer());
+};
+
+/**
+ * Returns a copy of the JPEG with its GPS block emptied (zero entries, all
+ * coordinate bytes zeroed). Other metadata such as orientation is kept.
+ */
+export const stripGps = (bytes: Uint8Array): Uint8Array => {
+  const copy = bytes.slice();
+  const tiff = findTiff(new DataView(copy.buffer));
+  if (!tiff) return bytes;
+  const { view, start, little } = tiff;
+
+  try {
+    const ifd0 = readEntries(tiff, view.getUint32(start + 4, little));
+    const gpsOffset = pointer(tiff, ifd0, TAG_GPS_IFD);
+    const gps = readEntries(tiff, gpsOffset);
+    if (gps.length === 0) return bytes;
+
+    gps.forEach(entry => {
+      const size = Math.max(4, (TYPE_SIZES[entry.type] || 1) * entry.count);
+      copy.fill(0, entry.valueOffset, Math.min(entry.valueOffset + size, copy.length));
+    });
+    const base = start + gpsOffset;
+    // Entry count 0, immediately followed by a zero "next IFD" offset
+    copy.fill(0, base, Math.min(base + 2 + gps.length * 12 + 4, copy.length));
+  } catch (e) {
+    console.warn("GPS removal failed", e);
+    return bytes;
+  }
+  return copy;
+};
+
+// Goes by the JPEG signature (checked in stripGps) rather than blob.type, which
+// images read back from archives or fetched remotely don't always report right
+export const stripGpsFromBlob = async (blob: Blob): Promise<Blob> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const stripped = stripGps(bytes);
+  return stripped === bytes ? blob : new Blob([asBlobPart(stripped)], { type: blob.type });
+};
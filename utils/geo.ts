@@ -0,0 +1,53 @@
+// Coordinate helpers. Cameras record WGS-84, while AMap expects GCJ-02
+// inside mainland China; positions outside China are identical in both.
+
+export interface LngLat {
+  lng: number;
+  lat: number;
+}
+
+const A = 6378245.0;
+const EE = 0.00669342162296594323;
+
+export const isOutsideChina = ({ lng, lat }: LngLat) => lng < 72.004 || lng > 137.8347 || lat < 0.8293 || lat > 55.8271;
+
+const transformLat = (x: number, y: number) => {
+  let ret = -100 + 2 * x + 3 * y + 0.2 * y * y + 0.1 * x * y + 0.2 * Math.sqrt(Math.abs(x));
+  ret += (20 * Math.sin(6 * x * Math.PI) + 20 * Math.sin(2 * x * Math.PI)) * 2 / 3;
+  ret += (20 * Math.sin(y * Math.PI) + 40 * Math.sin(y / 3 * Math.PI)) * 2 / 3;
+  ret += (160 * Math.sin(y / 12 * Math.PI) + 320 * Math.sin(y * Math.PI / 30)) * 2 / 3;
+  return ret;
+};
+
+const transformLng = (x: number, y: number) => {
+  let ret = 300 + x + 2 * y + 0.1 * x * x + 0.1 * x * y + 0.1 * Math.sqrt(Math.abs(x));
+  ret += (20 * Math.sin(6 * x * Math.PI) + 20 * Math.sin(2 * x * Math.PI)) * 2 / 3;
+  ret += (20 * Math.sin(x * Math.PI) + 40 * Math.sin(x / 3 * Math.PI)) * 2 / 3;
+  ret += (150 * Math.sin(x / 12 * Math.PI) + 300 * Math.sin(x / 30 * Math.PI)) * 2 / 3;
+  return ret;
+};
+
+export const wgs84ToGcj02 = (point: LngLat): LngLat => {
+  if (isOutsideChina(point)) return point;
+  const { lng, lat } = point;
+  let dLat = transformLat(lng - 105, lat - 35);
+  let dLng = transformLng(lng - 105, lat - 35);
+  const radLat = lat / 180 * Math.PI;
+  let magic = Math.sin(radLat);
+  magic = 1 - EE * magic * magic;
+  const sqrtMagic = Math.sqrt(magic);
+  dLat = (dLat * 180) / ((A * (1 - EE)) / (magic * sqrtMagic) * Math.PI);
+  dLng = (dLng * 180) / (A / sqrtMagic * Math.cos(radLat) * Math.PI);
+  return { lng: lng + dLng, lat: lat + dLat };
+};
+
+const EARTH_RADIUS_M = 6371000;
+
+/** Great-circle distance in metres; accurate enough for telling nearby places apart. */
+export const distanceMeters = (a: LngLat, b: LngLat): number => {
+  const rad = (deg: number) => deg * Math.PI / 180;
+  const dLat = rad(b.lat - a.lat);
+  const dLng = rad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(rad(a.lat)) * Math.cos(rad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.sqrt(h));
+};
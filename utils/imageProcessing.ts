@@ -0,0 +1,215 @@
+// Upload pipeline: every photo becomes a display-size variant (detail page,
+// lightbox) and a small thumbnail (cards, grids). WebP is used when the
+// browser can encode it; each variant is squeezed under a byte budget by
+// lowering quality first, then dimensions. Runs on the main thread or inside
+// the image worker, using OffscreenCanvas when there is no document.
+// EXIF orientation is applied by hand on browsers that ignore it when decoding.
+
+import { PhotoMetadata, readPhotoMetadata } from './exif';
+
+export interface ImageVariantSpec {
+  maxSize: number; // Longest edge in px
+  maxBytes: number;
+}
+
+export interface ImagePipelineOptions {
+  display: ImageVariantSpec;
+  thumbnail: ImageVariantSpec;
+}
+
+export interface ProcessedImage {
+  display: Blob;
+  thumbnail: Blob;
+  width: number; // Display variant dimensions
+  height: number;
+  metadata: PhotoMetadata; // Read from the original file; the encoded variants carry none
+}
+
+export const DEFAULT_BYTE_BUDGET = 800 * 1024;
+
+export const BYTE_BUDGET_OPTIONS = [
+  { label: '省空间', bytes: 400 * 1024 },
+  { label: '标准', bytes: DEFAULT_BYTE_BUDGET },
+  { label: '高清', bytes: 2 * 1024 * 1024 }
+];
+
+const THUMBNAIL_SPEC: ImageVariantSpec = { maxSize: 480, maxBytes: 60 * 1024 };
+
+export const pipelineOptions = (displayBudget = DEFAULT_BYTE_BUDGET): ImagePipelineOptions => ({
+  display: { maxSize: 2048, maxBytes: displayBudget },
+  thumbnail: THUMBNAIL_SPEC
+});
+
+const QUALITY_STEPS = [0.9, 0.82, 0.74, 0.66, 0.58];
+const DOWNSCALE_STEP = 0.8;
+const MIN_EDGE = 160;
+
+type AnyCanvas = HTMLCanvasElement | OffscreenCanvas;
+
+const createCanvas = (width: number, height: number): AnyCanvas => {
+  if (typeof document === 'undefined') return new OffscreenCanvas(width, height);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+const canvasToBlob = (canvas: AnyCanvas, type: string, quality: number): Promise<Blob> => {
+  if (!('toBlob' in canvas)) return canvas.convertToBlob({ type, quality });
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Image encoding failed')), type, quality);
+  });
+};
+
+let webpSupport: Promise<boolean> | null = null;
+
+/** Whether canvas can encode WebP (Safari before 16 silently falls back to PNG). */
+export const supportsWebp = (): Promise<boolean> => {
+  if (!webpSupport) {
+    webpSupport = canvasToBlob(createCanvas(1, 1), 'image/webp', 0.8)
+      .then(blob => blob.type === 'image/webp', () => false);
+  }
+  return webpSupport;
+};
+
+export const fitWithin = (width: number, height: number, maxSize: number) => {
+  const scale = Math.min(1, maxSize / Math.max(width, height));
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+};
+
+interface DecodedImage {
+  source: CanvasImageSource;
+  width: number; // Upright dimensions, after orientation
+  height: number;
+  orientation: number; // Still to be applied when drawing; 1 when the decoder already did
+  close: () => void;
+}
+
+const decodeRaw = async (file: Blob): Promise<Omit<DecodedImage, 'orientation'>> => {
+  if (typeof createImageBitmap === 'function') {
+    const bitmap = await createImageBitmap(file);
+    return { source: bitmap, width: bitmap.width, height: bitmap.height, close: () => bitmap.close() };
+  }
+  const url = URL.createObjectURL(file);
+  const img = new Image();
+  img.src = url;
+  try {
+    await img.decode();
+  } catch (e) {
+    URL.revokeObjectURL(url);
+    throw e;
+  }
+  return { source: img, width: img.naturalWidth, height: img.naturalHeight, close: () => URL.revokeObjectURL(url) };
+};
+
+// APP1 segment holding only "Orientation = 6" (rotate 90° clockwise), big-endian TIFF
+const ROTATED_EXIF = new Uint8Array([
+  0xFF, 0xE1, 0x00, 0x22, 0x45, 0x78, 0x69, 0x66, 0x00, 0x00,
+  0x4D, 0x4D, 0x00, 0x2A, 0x00, 0x00, 0x00, 0x08,
+  0x00, 0x01, 0x01, 0x12, 0x00, 0x03, 0x00, 0x00, 0x00, 0x01, 0x00, 0x06, 0x00, 0x00,
+  0x00, 0x00, 0x00, 0x00
+]);
+
+let orientationSupport: Promise<boolean> | null = null;
+
+/** Whether the decoder rotates images by their EXIF orientation, probed with a 2×1 JPEG tagged as rotated. */
+const decoderAppliesOrientation = (): Promise<boolean> => {
+  if (!orientationSupport) {
+    orientationSupport = (async () => {
+      const jpeg = new Uint8Array(await (await canvasToBlob(createCanvas(2, 1), 'image/jpeg', 0.5)).arrayBuffer());
+      const tagged = new Blob([jpeg.subarray(0, 2), ROTATED_EXIF, jpeg.subarray(2)], { type: 'image/jpeg' });
+      const probe = await decodeRaw(tagged);
+      probe.close();
+      return probe.width === 1;
+    })().catch(() => true);
+  }
+  return orientationSupport;
+};
+
+const decodeImage = async (file: Blob, metadata: PhotoMetadata): Promise<DecodedImage> => {
+  const raw = await decodeRaw(file);
+  const orientation = metadata.orientation && metadata.orientation > 1 && !(await decoderAppliesOrientation()) ? metadata.orientation : 1;
+  const swapped = orientation >= 5;
+  return { ...raw, orientation, width: swapped ? raw.height : raw.width, height: swapped ? raw.width : raw.height };
+};
+
+// Canvas transforms for EXIF orientations 2–8, given the upright output size
+const ORIENTATION_TRANSFORMS: Record<number, (w: number, h: number) => [number, number, number, number, number, number]> = {
+  2: (w) => [-1, 0, 0, 1, w, 0],
+  3: (w, h) => [-1, 0, 0, -1, w, h],
+  4: (w, h) => [1, 0, 0, -1, 0, h],
+  5: () => [0, 1, 1, 0, 0, 0],
+  6: (w) => [0, 1, -1, 0, w, 0],
+  7: (w, h) => [0, -1, -1, 0, w, h],
+  8: (w, h) => [0, -1, 1, 0, 0, h]
+};
+
+const drawUpright = (ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D, image: DecodedImage, width: number, height: number) => {
+  const [a, b, c, d, e, f] = ORIENTATION_TRANSFORMS[image.orientation]?.(width, height) ?? [1, 0, 0, 1, 0, 0];
+  ctx.setTransform(a, b, c, d, e, f);
+  // Rotated orientations draw the stored (sideways) image, so the axes swap
+  if (image.orientation >= 5) ctx.drawImage(image.source, 0, 0, height, width);
+  else ctx.drawImage(image.source, 0, 0, width, height);
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+};
+
+interface EncodedVariant {
+  blob: Blob;
+  width: number;
+  height: number;
+}
+
+/** Encodes one variant, stepping quality then size down until it fits the spec's byte budget. */
+const encodeVariant = async (image: DecodedImage, spec: ImageVariantSpec, type: string): Promise<EncodedVariant> => {
+  let { width, height } = fitWithin(image.width, image.height, spec.maxSize);
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+  if (!ctx) throw new Error('Canvas is not available');
+
+  let smallest: EncodedVariant | null = null;
+
+  while (true) {
+    canvas.width = width;
+    canvas.height = height;
+    drawUpright(ctx, image, width, height);
+
+    for (const quality of QUALITY_STEPS) {
+      const blob = await canvasToBlob(canvas, type, quality);
+      if (!smallest || blob.size < smallest.blob.size) smallest = { blob, width, height };
+      if (blob.size <= spec.maxBytes) return { blob, width, height };
+    }
+
+    // Give up shrinking at a minimum size and keep the smallest attempt
+    if (smallest && Math.max(width, height) * DOWNSCALE_STEP < MIN_EDGE) return smallest;
+    width = Math.max(1, Math.round(width * DOWNSCALE_STEP));
+    height = Math.max(1, Math.round(height * DOWNSCALE_STEP));
+  }
+};
+
+/** `onProgress` receives 0–1 as decoding and each variant finish. */
+export const processImage = async (file: Blob, options: ImagePipelineOptions = pipelineOptions(), onProgress?: (progress: number) => void): Promise<ProcessedImage> => {
+  const type = await supportsWebp() ? 'image/webp' : 'image/jpeg';
+  const metadata = await readPhotoMetadata(file);
+  const image = await decodeImage(file, metadata);
+  onProgress?.(0.2);
+  try {
+    const display = await encodeVariant(image, options.display, type);
+    onProgress?.(0.8);
+    const thumbnail = await encodeVariant(image, options.thumbnail, type);
+    onProgress?.(1);
+    return { display: display.blob, thumbnail: thumbnail.blob, width: display.width, height: display.height, metadata };
+  } finally {
+    image.close();
+  }
+};
+
+/** Thumbnail for an already stored image (used to backfill photos saved before thumbnails existed). */
+export const createThumbnail = async (blob: Blob): Promise<Blob> => {
+  const type = await supportsWebp() ? 'image/webp' : 'image/jpeg';
+  const image = await decodeImage(blob, await readPhotoMetadata(blob));
+  try {
+    return (await encodeVariant(image, THUMBNAIL_SPEC, type)).blob;
+  } finally {
+    image.close();
+  }
+};
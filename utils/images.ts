@@ -0,0 +1,15 @@
+// Entries saved without photos get a generated stock image so cards never render empty
+const PLACEHOLDER_PREFIX = 'https://picsum.photos/seed/';
+
+export const placeholderImage = (seed: string | number) => `${PLACEHOLDER_PREFIX}${seed}/800/1000`;
+
+export const isPlaceholderImage = (src: string) => src.startsWith(PLACEHOLDER_PREFIX);
+
+export const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
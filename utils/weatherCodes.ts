@@ -0,0 +1,64 @@
+// WMO weather interpretation codes (the scheme Open-Meteo reports), with
+// Chinese labels and the coarse groups used for icons, filters and stats.
+// Temperatures are stored in °C; conversion happens only for display.
+
+export type WeatherGroup = 'clear' | 'partly' | 'cloudy' | 'fog' | 'drizzle' | 'rain' | 'snow' | 'thunder';
+
+export const WMO_CODES: Record<number, { label: string; group: WeatherGroup }> = {
+  0: { label: '晴', group: 'clear' },
+  1: { label: '晴间少云', group: 'partly' },
+  2: { label: '多云', group: 'partly' },
+  3: { label: '阴', group: 'cloudy' },
+  45: { label: '雾', group: 'fog' },
+  48: { label: '雾凇', group: 'fog' },
+  51: { label: '小毛毛雨', group: 'drizzle' },
+  53: { label: '毛毛雨', group: 'drizzle' },
+  55: { label: '大毛毛雨', group: 'drizzle' },
+  56: { label: '冻毛毛雨', group: 'drizzle' },
+  57: { label: '强冻毛毛雨', group: 'drizzle' },
+  61: { label: '小雨', group: 'rain' },
+  63: { label: '中雨', group: 'rain' },
+  65: { label: '大雨', group: 'rain' },
+  66: { label: '冻雨', group: 'rain' },
+  67: { label: '强冻雨', group: 'rain' },
+  71: { label: '小雪', group: 'snow' },
+  73: { label: '中雪', group: 'snow' },
+  75: { label: '大雪', group: 'snow' },
+  77: { label: '米雪', group: 'snow' },
+  80: { label: '小阵雨', group: 'rain' },
+  81: { label: '阵雨', group: 'rain' },
+  82: { label: '强阵雨', group: 'rain' },
+  85: { label: '阵雪', group: 'snow' },
+  86: { label: '强阵雪', group: 'snow' },
+  95: { label: '雷阵雨', group: 'thunder' },
+  96: { label: '雷阵雨伴小冰雹', group: 'thunder' },
+  99: { label: '雷阵雨伴大冰雹', group: 'thunder' }
+};
+
+/** Group of a code; codes outside the table fall into the nearest range. */
+export const weatherGroup = (code: number): WeatherGroup => {
+  if (WMO_CODES[code]) return WMO_CODES[code].group;
+  if (code <= 0) return 'clear';
+  if (code <= 2) return 'partly';
+  if (code < 45) return 'cloudy';
+  if (code < 51) return 'fog';
+  if (code < 61) return 'drizzle';
+  if (code >= 95) return 'thunder';
+  if ((code >= 71 && code < 80) || code === 85 || code === 86) return 'snow';
+  return 'rain';
+};
+
+/** Localized label for a code, or `fallback` (usually the stored condition text) for unknown codes. */
+export const weatherLabel = (code: number, fallback = ''): string => WMO_CODES[code]?.label || fallback;
+
+export type TemperatureUnit = 'C' | 'F';
+
+export const toFahrenheit = (celsius: number) => celsius * 9 / 5 + 32;
+
+export const fromFahrenheit = (fahrenheit: number) => (fahrenheit - 32) * 5 / 9;
+
+/** Rounded temperature in the given unit, e.g. "24°C" or "75°F". */
+export const formatTemperature = (celsius: number, unit: TemperatureUnit, withUnit = true): string => {
+  const value = Math.round(unit === 'F' ? toFahrenheit(celsius) : celsius);
+  return withUnit ? `${value}°${unit}` : `${value}°`;
+};
@@ -1,10 +1,27 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Camera, Tag, Plus, Save, Star, ArrowLeft, X, Check, ImagePlus, Trash2, CheckCircle } from 'lucide-react';
+import { Camera, Tag, Plus, Save, Star, ArrowLeft, X, Check, ImagePlus, Trash2, CheckCircle, FileClock, Loader2, MapPin } from 'lucide-react';
 import { MiniCapsule } from '../components/MiniCapsule';
 import { LocationPicker } from '../components/LocationPicker';
+import { VenueAutocomplete } from '../components/VenueAutocomplete';
+import { DishEditor } from '../components/DishEditor';
 import { WeatherWidget } from '../components/WeatherWidget';
-import { FoodEntry, WeatherInfo } from '../types';
+import { StoredImage } from '../components/StoredImage';
+import { StarRating } from '../components/StarRating';
+import { Dish, FoodEntry, Place, Venue, WeatherInfo } from '../types';
+import { toDateTimeInputValue, fromDateTimeInputValue, formatDateTime } from '../utils/date';
+import { placeholderImage, blobToDataUrl } from '../utils/images';
+import { DEFAULT_BYTE_BUDGET, pipelineOptions } from '../utils/imageProcessing';
+import { processUpload } from '../services/imageUploads';
+import { UNKNOWN_LOCATION, isStructuredPlace } from '../services/places';
+import { venuePlace } from '../services/venues';
+import { normalizeDishes, removeDishImages } from '../services/dishes';
+import { DimensionRatings, RATING_DIMENSIONS, RatingWeights, normalizeRatings, overallRating } from '../services/ratings';
+import { PhotoMetadata } from '../utils/exif';
+import { LngLat, wgs84ToGcj02 } from '../utils/geo';
+import { TemperatureUnit } from '../utils/weatherCodes';
+import { DraftForm, EntryDraft, AUTOSAVE_DELAY_MS, newDraftId, editDraftId, emptyForm, formFromEntry, isFormChanged } from '../services/drafts';
+import { loadDrafts, saveDraft, deleteDraft, getPreference, registerThumbnail } from '../services/storage';
 
 interface AddEntryViewProps {
   initialEntry?: FoodEntry;
@@ -12,18 +29,36 @@ interface AddEntryViewProps {
   onCancel?: () => void;
   availableTags: string[]; // Received from App
   onAddTag: (tag: string) => void; // Call to add global tag
+  temperatureUnit: TemperatureUnit;
+  ratingWeights: RatingWeights;
+  venues: Venue[];
+  entries: FoodEntry[]; // Ranks venue suggestions by visits
 }
 
-export const AddEntryView: React.FC<AddEntryViewProps> = ({ onSave, onCancel, initialEntry, availableTags, onAddTag }) => {
+export const AddEntryView: React.FC<AddEntryViewProps> = ({ onSave, onCancel, initialEntry, availableTags, onAddTag, temperatureUnit, ratingWeights, venues, entries }) => {
   // State for form fields
   const [title, setTitle] = useState('');
   const [location, setLocation] = useState('');
+  const [place, setPlace] = useState<Place | undefined>(undefined);
+  const [venueId, setVenueId] = useState<string | undefined>(undefined);
+  const [eatenAt, setEatenAt] = useState(() => toDateTimeInputValue(new Date().toISOString()));
   const [description, setDescription] = useState('');
   const [rating, setRating] = useState(0);
+  const [ratings, setRatings] = useState<DimensionRatings | undefined>(undefined);
+  const [dishes, setDishes] = useState<Dish[] | undefined>(undefined);
   
   // Images
   const [images, setImages] = useState<string[]>([]);
   const [coverIndex, setCoverIndex] = useState(0);
+  const [byteBudget, setByteBudget] = useState(DEFAULT_BYTE_BUDGET);
+  // Photos still being resized in the background
+  const [uploads, setUploads] = useState<{ id: number; progress: number }[]>([]);
+  const uploadIdRef = useRef(0);
+  // Uploads in selection order; `result` is set when done (null on failure)
+  const uploadQueueRef = useRef<{ id: number; result?: string | null }[]>([]);
+  // Capture time / position found in the first photo, offered as a prefill
+  const [photoSuggestion, setPhotoSuggestion] = useState<PhotoMetadata | null>(null);
+  const [photoCoords, setPhotoCoords] = useState<LngLat | null>(null);
 
   // Image Selection (Batch Delete)
   const [isImageSelectionMode, setIsImageSelectionMode] = useState(false);
@@ -40,29 +75,125 @@ export const AddEntryView: React.FC<AddEntryViewProps> = ({ onSave, onCancel, in
   // Saving States
   const [isSaving, setIsSaving] = useState(false);
   const [showSuccess, setShowSuccess] = useState(false);
+
+  // Drafts - the form is autosaved so closing the app mid-entry loses nothing
+  const [baseline] = useState<DraftForm>(() => initialEntry ? formFromEntry(initialEntry) : { ...emptyForm(), eatenAt });
+  const [draftId, setDraftId] = useState(() => initialEntry ? editDraftId(initialEntry.id) : newDraftId());
+  const [resumeDrafts, setResumeDrafts] = useState<EntryDraft[] | null>(null);
+  const [isDraftCheckDone, setIsDraftCheckDone] = useState(false);
+  const [showDiscardConfirm, setShowDiscardConfirm] = useState(false);
+  const hasSavedDraftRef = useRef(false);
+
+  const form: DraftForm = { title, location, place, venueId, eatenAt, description, rating, ratings, dishes, images, coverIndex, tags: selectedTags, weather };
+  // Weather is looked up for the meal's own hour; an unparsable time means "now"
+  const weatherTime = useMemo(() => new Date(fromDateTimeInputValue(eatenAt) || Date.now()), [eatenAt]);
+  const isDirty = isFormChanged(form, baseline);
+  // Once any dimension is rated the overall follows from the weights
+  const computedRating = overallRating(ratings, ratingWeights);
+  const visibleDimensions = RATING_DIMENSIONS.filter(d => ratingWeights[d.id] > 0 || (ratings?.[d.id] ?? 0) > 0);
+
+  const applyForm = (next: DraftForm) => {
+      setTitle(next.title);
+      setLocation(next.location);
+      setPlace(next.place);
+      setVenueId(next.venueId);
+      setEatenAt(next.eatenAt);
+      setDescription(next.description);
+      setRating(next.rating);
+      setRatings(next.ratings);
+      setDishes(next.dishes);
+      setImages(next.images);
+      setCoverIndex(next.coverIndex);
+      setSelectedTags(next.tags);
+      setWeather(next.weather);
+  };
   
   // Initialize Data
   useEffect(() => {
-    if (initialEntry) {
-        setTitle(initialEntry.title);
-        setLocation(initialEntry.location);
-        setDescription(initialEntry.description);
-        setRating(initialEntry.rating);
-        
-        // Handle image migration
-        if (initialEntry.images && initialEntry.images.length > 0) {
-            setImages(initialEntry.images);
-            setCoverIndex(initialEntry.coverImageIndex || 0);
-        } else if ((initialEntry as any).imageUrl) {
-            setImages([(initialEntry as any).imageUrl]);
-            setCoverIndex(0);
-        }
-
-        setSelectedTags(initialEntry.tags);
-        setWeather(initialEntry.weather);
-    }
+    if (initialEntry) applyForm(formFromEntry(initialEntry));
   }, [initialEntry]);
 
+  useEffect(() => {
+    getPreference('image_byte_budget')
+      .then(budget => { if (budget) setByteBudget(budget); })
+      .catch(e => console.warn("Failed to load image size preference", e));
+  }, []);
+
+  // Offer to resume: the pending edit of this entry, or any unfinished new entries
+  useEffect(() => {
+      let cancelled = false;
+      loadDrafts()
+        .then(drafts => {
+            if (cancelled) return;
+            const candidates = initialEntry
+                ? drafts.filter(d => d.entryId === initialEntry.id)
+                : drafts.filter(d => !d.entryId);
+            if (candidates.length > 0) setResumeDrafts(candidates);
+        })
+        .catch(e => console.error("Failed to load drafts:", e))
+        .finally(() => {
+            if (!cancelled) setIsDraftCheckDone(true);
+        });
+      return () => { cancelled = true; };
+  }, []);
+
+  const writeDraft = () => {
+      hasSavedDraftRef.current = true;
+      return saveDraft({ id: draftId, entryId: initialEntry?.id, form, updatedAt: new Date().toISOString() })
+        .catch(e => console.error("Failed to save draft:", e));
+  };
+
+  const removeDraft = (id = draftId) => {
+      hasSavedDraftRef.current = false;
+      return deleteDraft(id).catch(e => console.error("Failed to delete draft:", e));
+  };
+
+  // Autosave (paused while the resume prompt is open or a save is in flight)
+  useEffect(() => {
+      if (!isDraftCheckDone || resumeDrafts || isSaving) return;
+      if (!isDirty) {
+          if (hasSavedDraftRef.current) removeDraft();
+          return;
+      }
+      const timer = setTimeout(writeDraft, AUTOSAVE_DELAY_MS);
+      return () => clearTimeout(timer);
+  }, [title, location, place, venueId, eatenAt, description, rating, ratings, dishes, images, coverIndex, selectedTags, weather, isDraftCheckDone, resumeDrafts, isSaving]);
+
+  const handleResumeDraft = (draft: EntryDraft) => {
+      applyForm(draft.form);
+      setDraftId(draft.id);
+      hasSavedDraftRef.current = true;
+      setResumeDrafts(null);
+  };
+
+  const handleDeleteDraft = (draft: EntryDraft) => {
+      removeDraft(draft.id);
+      setResumeDrafts(prev => {
+          const remaining = (prev || []).filter(d => d.id !== draft.id);
+          return remaining.length > 0 ? remaining : null;
+      });
+  };
+
+  const handleCancel = () => {
+      if (isDirty) {
+          setShowDiscardConfirm(true);
+      } else {
+          onCancel?.();
+      }
+  };
+
+  const handleKeepDraft = async () => {
+      await writeDraft();
+      setShowDiscardConfirm(false);
+      onCancel?.();
+  };
+
+  const handleDiscard = async () => {
+      await removeDraft();
+      setShowDiscardConfirm(false);
+      onCancel?.();
+  };
+
   const toggleTag = (tag: string) => {
     if (selectedTags.includes(tag)) {
         setSelectedTags(selectedTags.filter(t => t !== tag));
@@ -84,61 +215,83 @@ export const AddEntryView: React.FC<AddEntryViewProps> = ({ onSave, onCancel, in
     }
   };
 
+  // Photos finish processing in any order but are added in the order they were picked
+  const flushUploads = () => {
+    const queue = uploadQueueRef.current;
+    const ready: string[] = [];
+    const finished = new Set<number>();
+    while (queue.length > 0 && queue[0].result !== undefined) {
+        const { id, result } = queue.shift()!;
+        finished.add(id);
+        if (result) ready.push(result);
+    }
+    if (ready.length > 0) setImages(prev => [...prev, ...ready]);
+    if (finished.size > 0) setUploads(prev => prev.filter(u => !finished.has(u.id)));
+  };
+
   const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (images.length >= 99) {
+    if (images.length + uploads.length >= 99) {
         alert("最多只能上传 99 张图片");
         return;
     }
 
     const files = e.target.files;
     if (files && files.length > 0) {
-        const remainingSlots = 99 - images.length;
-        const filesToProcess = Array.from(files).slice(0, remainingSlots);
-
-        filesToProcess.forEach((file: File) => {
-            if (!file.type.startsWith('image/')) return;
-
-            const reader = new FileReader();
-            reader.onload = (event) => {
-                const img = new Image();
-                img.onload = () => {
-                    const canvas = document.createElement('canvas');
-                    let width = img.width;
-                    let height = img.height;
-                    
-                    const MAX_SIZE = 2560; 
-
-                    if (width > height) {
-                        if (width > MAX_SIZE) {
-                            height *= MAX_SIZE / width;
-                            width = MAX_SIZE;
-                        }
-                    } else {
-                        if (height > MAX_SIZE) {
-                            width *= MAX_SIZE / height;
-                            height = MAX_SIZE;
-                        }
-                    }
-
-                    canvas.width = width;
-                    canvas.height = height;
-                    const ctx = canvas.getContext('2d');
-                    if (ctx) {
-                        ctx.drawImage(img, 0, 0, width, height);
-                        const compressedDataUrl = canvas.toDataURL('image/jpeg', 0.95);
-                        setImages(prev => [...prev, compressedDataUrl]);
-                    }
-                };
-                if (event.target?.result) {
-                    img.src = event.target.result as string;
+        const remainingSlots = 99 - images.length - uploads.length;
+        const filesToProcess = Array.from(files).slice(0, remainingSlots).filter(file => file.type.startsWith('image/'));
+
+        const options = pipelineOptions(byteBudget);
+        const isFirstBatch = images.length === 0 && uploads.length === 0;
+        filesToProcess.forEach(async (file: File, index) => {
+            const id = ++uploadIdRef.current;
+            const slot: { id: number; result?: string | null } = { id };
+            uploadQueueRef.current.push(slot);
+            const setProgress = (progress: number) => setUploads(prev => prev.map(u => u.id === id ? { ...u, progress } : u));
+            setUploads(prev => [...prev, { id, progress: 0 }]);
+
+            try {
+                const processed = await processUpload(file, options, setProgress);
+                const dataUrl = await blobToDataUrl(processed.display);
+                registerThumbnail(dataUrl, processed.thumbnail);
+                slot.result = dataUrl;
+
+                const { takenAt, latitude } = processed.metadata;
+                if (isFirstBatch && index === 0 && (takenAt || latitude !== undefined)) {
+                    setPhotoSuggestion(processed.metadata);
                 }
-            };
-            reader.readAsDataURL(file);
+            } catch (err) {
+                console.error("Image processing failed", err);
+                alert(`无法读取图片「${file.name}」`);
+            } finally {
+                if (slot.result === undefined) slot.result = null;
+                flushUploads();
+            }
         });
     }
     if (fileInputRef.current) fileInputRef.current.value = '';
   };
 
+  // A newly picked place is matched to a venue again on save
+  const handlePlaceChange = (next: Place) => {
+      setLocation(next.name);
+      setPlace(next);
+      setVenueId(undefined);
+  };
+
+  const handleVenueSelect = (venue: Venue) => {
+      setLocation(venue.name);
+      setPlace(venuePlace(venue));
+      setVenueId(venue.id);
+  };
+
+  const applyPhotoSuggestion = () => {
+      if (!photoSuggestion) return;
+      const { takenAt, latitude, longitude } = photoSuggestion;
+      if (takenAt) setEatenAt(toDateTimeInputValue(takenAt));
+      if (latitude !== undefined && longitude !== undefined) setPhotoCoords(wgs84ToGcj02({ lng: longitude, lat: latitude }));
+      setPhotoSuggestion(null);
+  };
+
   // --- Image Selection Logic ---
   
   const handleImageLongPress = (index: number) => {
@@ -192,6 +345,7 @@ export const AddEntryView: React.FC<AddEntryViewProps> = ({ onSave, onCancel, in
       });
 
       setImages(newImages);
+      setDishes(prev => removeDishImages(prev, selectedImageIndices));
       
       // Reset cover index logic
       // If cover was deleted or shifted, default to 0
@@ -221,22 +375,36 @@ export const AddEntryView: React.FC<AddEntryViewProps> = ({ onSave, onCancel, in
           alert("请输入标题");
           return;
       }
+
+      if (uploads.length > 0) {
+          alert("照片仍在处理中，请稍候");
+          return;
+      }
       
       setIsSaving(true);
 
+      const now = new Date().toISOString();
       const newEntry: FoodEntry = {
           id: initialEntry ? initialEntry.id : Date.now().toString(),
           title,
-          location: location || '未知地点',
-          date: initialEntry ? initialEntry.date : new Date().toLocaleDateString('zh-CN', { month: 'short', day: 'numeric' }),
-          images: images.length > 0 ? images : [`https://picsum.photos/seed/${Date.now()}/800/1000`], 
+          location: location || UNKNOWN_LOCATION,
+          place: isStructuredPlace(place) ? place : undefined,
+          venueId,
+          eatenAt: fromDateTimeInputValue(eatenAt) || initialEntry?.eatenAt || now,
+          createdAt: initialEntry ? initialEntry.createdAt : now,
+          updatedAt: now,
+          images: images.length > 0 ? images : [placeholderImage(Date.now())], 
           coverImageIndex: coverIndex >= images.length ? 0 : coverIndex,
           tags: selectedTags,
-          rating: rating > 0 ? rating : 0,
+          rating: computedRating ?? (rating > 0 ? rating : 0),
+          ratings: normalizeRatings(ratings),
+          dishes: normalizeDishes(dishes, images.length),
           description: description || '暂无描述',
           weather: weather
       };
       
+      removeDraft();
+
       // Simulate save delay for feedback, then call actual save
       setTimeout(() => {
           onSave(newEntry);
@@ -263,7 +431,7 @@ export const AddEntryView: React.FC<AddEntryViewProps> = ({ onSave, onCancel, in
         transition={{ duration: 0.4 }}
       >
         <div className="flex justify-between items-center mb-6">
-             <button onClick={onCancel} className="p-2 -ml-2 text-stone-400 hover:text-stone-800 transition-colors">
+             <button onClick={handleCancel} className="p-2 -ml-2 text-stone-400 hover:text-stone-800 transition-colors">
                 <ArrowLeft size={24} />
             </button>
             <h2 className="serif text-xl text-stone-800 tracking-wide font-medium">
@@ -298,7 +466,7 @@ export const AddEntryView: React.FC<AddEntryViewProps> = ({ onSave, onCancel, in
                             onPointerLeave={() => handleImagePointerUp(idx)}
                             onClick={() => handleImageClick(idx)}
                         >
-                            <img src={img} className="w-full h-full object-cover" alt={`Upload ${idx}`} />
+                            <StoredImage src={img} variant="thumb" className="w-full h-full object-cover" alt={`Upload ${idx}`} />
                             
                             {/* Selection Checkbox Overlay */}
                             {isImageSelectionMode ? (
@@ -321,8 +489,19 @@ export const AddEntryView: React.FC<AddEntryViewProps> = ({ onSave, onCancel, in
                     );
                 })}
 
+                {/* Uploads in progress */}
+                {uploads.map(upload => (
+                    <div key={upload.id} className="relative flex-shrink-0 w-40 h-52 rounded-2xl bg-stone-100 flex flex-col items-center justify-center gap-3 text-stone-400">
+                        <Loader2 size={20} className="animate-spin" />
+                        <div className="w-24 h-1 bg-stone-200 rounded-full overflow-hidden">
+                            <div className="h-full bg-stone-500 rounded-full transition-all duration-300" style={{ width: `${Math.round(upload.progress * 100)}%` }} />
+                        </div>
+                        <span className="text-[10px] tracking-wider">处理中</span>
+                    </div>
+                ))}
+
                 {/* Add Button - Hidden in selection mode */}
-                {!isImageSelectionMode && images.length < 99 && (
+                {!isImageSelectionMode && images.length + uploads.length < 99 && (
                     <div 
                         onClick={() => fileInputRef.current?.click()}
                         className="flex-shrink-0 w-40 h-52 bg-white/40 backdrop-blur-sm rounded-2xl border border-dashed border-stone-300 flex flex-col items-center justify-center cursor-pointer hover:bg-stone-50 hover:border-stone-400 transition-all text-stone-400"
@@ -339,13 +518,35 @@ export const AddEntryView: React.FC<AddEntryViewProps> = ({ onSave, onCancel, in
                              <ImagePlus size={20} />
                          </div>
                          <span className="text-xs">添加图片</span>
-                         <span className="text-[9px] mt-1 text-stone-300">{images.length}/99</span>
+                         <span className="text-[9px] mt-1 text-stone-300">{images.length + uploads.length}/99</span>
                     </div>
                 )}
             </div>
             {images.length === 0 && (
                  <p className="text-center text-xs text-stone-400 mt-2">至少上传一张图片</p>
             )}
+
+            {/* Photo metadata prefill */}
+            <AnimatePresence>
+                {photoSuggestion && (
+                    <motion.div
+                        initial={{ opacity: 0, y: -8 }} animate={{ opacity: 1, y: 0 }} exit={{ opacity: 0, y: -8 }}
+                        className="mt-3 flex items-center gap-3 p-3 rounded-2xl bg-amber-50 border border-amber-100"
+                    >
+                        <div className="w-8 h-8 rounded-full bg-amber-100 text-amber-600 flex items-center justify-center flex-shrink-0">
+                            <Camera size={14} />
+                        </div>
+                        <div className="flex-1 min-w-0 text-[11px] text-stone-600 leading-relaxed">
+                            <div>照片拍摄于 {photoSuggestion.takenAt ? formatDateTime(photoSuggestion.takenAt) : '未知时间'}</div>
+                            {photoSuggestion.latitude !== undefined && (
+                                <div className="flex items-center gap-1 text-stone-400"><MapPin size={10} />包含拍摄位置</div>
+                            )}
+                        </div>
+                        <button onClick={() => setPhotoSuggestion(null)} className="px-3 py-1.5 text-[10px] text-stone-500 rounded-full hover:bg-amber-100">忽略</button>
+                        <button onClick={applyPhotoSuggestion} className="px-3 py-1.5 text-[10px] font-bold text-white bg-stone-800 rounded-full">填入</button>
+                    </motion.div>
+                )}
+            </AnimatePresence>
         </div>
 
         {/* Form Inputs */}
@@ -361,17 +562,29 @@ export const AddEntryView: React.FC<AddEntryViewProps> = ({ onSave, onCancel, in
                 />
             </div>
 
+            <div className="group relative">
+                <label className="block text-[10px] font-medium text-stone-400 tracking-widest uppercase mb-2 ml-4">时间</label>
+                <input 
+                    type="datetime-local" 
+                    value={eatenAt}
+                    onChange={(e) => setEatenAt(e.target.value)}
+                    className={inputClass}
+                />
+            </div>
+
             <div className="group relative">
                 <label className="block text-[10px] font-medium text-stone-400 tracking-widest uppercase mb-2 ml-4">地点</label>
                 <LocationPicker 
                     value={location} 
-                    onChange={setLocation} 
+                    onChange={handlePlaceChange} 
+                    coords={photoCoords}
                 />
+                <VenueAutocomplete venues={venues} entries={entries} selectedId={venueId} onSelect={handleVenueSelect} />
             </div>
             
             <div className="group relative">
                 <label className="block text-[10px] font-medium text-stone-400 tracking-widest uppercase mb-2 ml-4">天气</label>
-                <WeatherWidget value={weather} onChange={setWeather} />
+                <WeatherWidget value={weather} onChange={setWeather} at={weatherTime} place={place} unit={temperatureUnit} />
             </div>
 
             <div className="relative">
@@ -406,22 +619,33 @@ export const AddEntryView: React.FC<AddEntryViewProps> = ({ onSave, onCancel, in
             <div className="group relative">
                  <label className="block text-[10px] font-medium text-stone-400 tracking-widest uppercase mb-2 ml-4">评分</label>
                  <div className="flex items-center gap-3">
-                    <div className="inline-flex items-center gap-1.5 bg-white/50 backdrop-blur-md border border-stone-200/50 rounded-2xl px-4 py-2.5 shadow-sm transition-all hover:bg-white/80 w-max">
-                        {[1, 2, 3, 4, 5].map((star) => (
-                            <button
-                                key={star}
-                                onClick={() => setRating(star)}
-                                className="focus:outline-none transform transition-transform hover:scale-110 active:scale-90"
-                            >
-                                <Star
-                                    size={22}
-                                    className={`${star <= rating ? "fill-amber-400 text-amber-400" : "text-stone-300 fill-stone-100"}`}
-                                    strokeWidth={1.5}
+                    <div className="inline-flex items-center bg-white/50 backdrop-blur-md border border-stone-200/50 rounded-2xl px-4 py-2.5 shadow-sm transition-all hover:bg-white/80 w-max">
+                        <StarRating value={computedRating ?? rating} onChange={computedRating === null ? setRating : undefined} />
+                    </div>
+                    {(computedRating ?? rating) > 0 && (
+                        <span className="serif text-lg text-amber-500 font-medium">{(computedRating ?? rating).toFixed(1)}</span>
+                    )}
+                 </div>
+                 {visibleDimensions.length > 0 && (
+                    <div className="mt-3 ml-4 space-y-2">
+                        {visibleDimensions.map(({ id, label }) => (
+                            <div key={id} className="flex items-center gap-3">
+                                <span className="w-12 text-[11px] text-stone-500">{label}</span>
+                                <StarRating
+                                    value={ratings?.[id] ?? 0}
+                                    onChange={value => setRatings(prev => normalizeRatings({ ...prev, [id]: value }))}
+                                    size={16}
                                 />
-                            </button>
+                            </div>
                         ))}
+                        <p className="text-[10px] text-stone-400">分项评分后，总分按权重自动计算</p>
                     </div>
-                 </div>
+                 )}
+            </div>
+
+            <div className="group relative">
+                <label className="block text-[10px] font-medium text-stone-400 tracking-widest uppercase mb-2 ml-4">菜品</label>
+                <DishEditor dishes={dishes ?? []} images={images} onChange={next => setDishes(next.length > 0 ? next : undefined)} />
             </div>
 
              <div className="group relative">
@@ -489,6 +713,72 @@ export const AddEntryView: React.FC<AddEntryViewProps> = ({ onSave, onCancel, in
             </AnimatePresence>
         </div>
 
+        {/* Resume Draft Prompt */}
+        <AnimatePresence>
+            {resumeDrafts && (
+                <motion.div
+                    initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}
+                    className="fixed inset-0 z-[100] flex items-center justify-center bg-black/20 backdrop-blur-sm p-6"
+                >
+                    <motion.div
+                        initial={{ scale: 0.9 }} animate={{ scale: 1 }} exit={{ scale: 0.9 }}
+                        className="bg-white rounded-2xl p-6 shadow-2xl w-full max-w-xs flex flex-col items-center text-center"
+                    >
+                        <div className="w-12 h-12 bg-amber-50 rounded-full flex items-center justify-center mb-3 text-amber-500"><FileClock size={24} /></div>
+                        <h3 className="text-sm font-bold text-stone-800 mb-1">{initialEntry ? '有未保存的修改' : '继续未完成的记录?'}</h3>
+                        <p className="text-xs text-stone-500 mb-4 leading-relaxed">{initialEntry ? '上次编辑这条记录时未保存就离开了。' : `找到 ${resumeDrafts.length} 份草稿。`}</p>
+                        <div className="w-full space-y-2 max-h-60 overflow-y-auto mb-4">
+                            {resumeDrafts.map(draft => (
+                                <div key={draft.id} className="flex items-center gap-2 p-2 rounded-xl bg-stone-50 text-left">
+                                    <StoredImage src={draft.form.images[draft.form.coverIndex] || draft.form.images[0]} variant="thumb" className="w-10 h-10 rounded-lg object-cover bg-stone-200 flex-shrink-0" />
+                                    <button onClick={() => handleResumeDraft(draft)} className="flex-1 min-w-0 text-left">
+                                        <div className="text-xs text-stone-700 truncate">{draft.form.title || '未命名草稿'}</div>
+                                        <div className="text-[10px] text-stone-400">{formatDateTime(draft.updatedAt)}</div>
+                                    </button>
+                                    <button onClick={() => handleDeleteDraft(draft)} className="w-7 h-7 flex items-center justify-center rounded-full text-stone-400 hover:bg-red-50 hover:text-red-500 flex-shrink-0" title="删除草稿">
+                                        <X size={14} />
+                                    </button>
+                                </div>
+                            ))}
+                        </div>
+                        <div className="flex gap-3 w-full">
+                            <button onClick={() => setResumeDrafts(null)} className="flex-1 py-2 text-xs font-medium text-stone-500 bg-stone-100 rounded-lg">
+                                {initialEntry ? '忽略' : '新建记录'}
+                            </button>
+                            <button onClick={() => handleResumeDraft(resumeDrafts[0])} className="flex-1 py-2 text-xs font-medium text-white bg-stone-800 rounded-lg hover:bg-stone-900">
+                                {initialEntry ? '恢复修改' : '继续最近一份'}
+                            </button>
+                        </div>
+                    </motion.div>
+                </motion.div>
+            )}
+        </AnimatePresence>
+
+        {/* Discard Confirmation */}
+        <AnimatePresence>
+            {showDiscardConfirm && (
+                <motion.div
+                    initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}
+                    className="fixed inset-0 z-[100] flex items-center justify-center bg-black/20 backdrop-blur-sm p-6"
+                    onClick={() => setShowDiscardConfirm(false)}
+                >
+                    <motion.div
+                        initial={{ scale: 0.9 }} animate={{ scale: 1 }} exit={{ scale: 0.9 }}
+                        onClick={e => e.stopPropagation()}
+                        className="bg-white rounded-2xl p-6 shadow-2xl w-full max-w-xs flex flex-col items-center text-center"
+                    >
+                        <h3 className="text-sm font-bold text-stone-800 mb-1">放弃未保存的内容?</h3>
+                        <p className="text-xs text-stone-500 mb-5 leading-relaxed">可以保留为草稿，下次打开时继续。</p>
+                        <div className="flex flex-col gap-2 w-full">
+                            <button onClick={handleKeepDraft} className="py-2.5 text-xs font-medium text-white bg-stone-800 rounded-lg hover:bg-stone-900">保留草稿</button>
+                            <button onClick={handleDiscard} className="py-2.5 text-xs font-medium text-white bg-red-500 rounded-lg hover:bg-red-600">放弃</button>
+                            <button onClick={() => setShowDiscardConfirm(false)} className="py-2.5 text-xs text-stone-400 mt-2">继续编辑</button>
+                        </div>
+                    </motion.div>
+                </motion.div>
+            )}
+        </AnimatePresence>
+
         {/* Success Modal */}
         <AnimatePresence>
             {showSuccess && (
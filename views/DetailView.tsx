@@ -1,33 +1,41 @@
 import React, { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { ArrowLeft, MapPin, Edit3, Calendar, Sun, Cloud, CloudRain, CloudSnow, CloudLightning, Wind, Download, X, Maximize2, ChevronLeft, ChevronRight } from 'lucide-react';
-import { FoodEntry } from '../types';
+import { ArrowLeft, MapPin, Edit3, Calendar, Download, X, Maximize2, ChevronLeft, ChevronRight, Store } from 'lucide-react';
+import { FoodEntry, Venue } from '../types';
 import { MiniCapsule } from '../components/MiniCapsule';
+import { StoredImage, useImageSrc } from '../components/StoredImage';
+import { WeatherBadge, weatherDetails } from '../components/WeatherIcon';
+import { StarRating } from '../components/StarRating';
+import { RatingWeights, ratedDimensions } from '../services/ratings';
+import { dishesTotal, formatPrice } from '../services/dishes';
+import { TemperatureUnit } from '../utils/weatherCodes';
+import { formatDateTime } from '../utils/date';
 
 interface DetailViewProps {
   entry: FoodEntry;
+  venue?: Venue;
   onBack: () => void;
   onEdit: () => void;
+  onOpenVenue: (venueId: string) => void;
+  temperatureUnit: TemperatureUnit;
+  ratingWeights: RatingWeights;
 }
 
-const WeatherIconMap: Record<number, React.ElementType> = {
-    0: Sun,
-    1: Cloud,
-    61: CloudRain,
-    71: CloudSnow,
-    95: CloudLightning,
-    3: Wind
-};
-
-export const DetailView: React.FC<DetailViewProps> = ({ entry, onBack, onEdit }) => {
+export const DetailView: React.FC<DetailViewProps> = ({ entry, venue, onBack, onEdit, onOpenVenue, temperatureUnit, ratingWeights }) => {
   const [viewImage, setViewImage] = useState<string | null>(null);
   const [viewIndex, setViewIndex] = useState<number>(0);
+  const viewImageSrc = useImageSrc(viewImage || undefined);
 
-  const WeatherIcon = entry.weather ? (WeatherIconMap[entry.weather.code] || Sun) : null;
   
-  const images = entry.images && entry.images.length > 0 ? entry.images : [(entry as any).imageUrl];
-  const coverImage = images[entry.coverImageIndex || 0] || images[0];
-  const otherImages = images.filter((_, idx) => idx !== (entry.coverImageIndex || 0));
+  const weatherSummary = entry.weather ? weatherDetails(entry.weather, temperatureUnit) : '';
+  // Dimensions weighted 0 are switched off and don't count towards the overall
+  const dimensions = ratedDimensions(entry.ratings).filter(d => ratingWeights[d.id] > 0);
+  const dishes = entry.dishes ?? [];
+  const total = dishesTotal(entry.dishes);
+  
+  const images = entry.images;
+  const coverImage = images[entry.coverImageIndex] || images[0];
+  const otherImages = images.filter((_, idx) => idx !== entry.coverImageIndex);
 
   const handleOpenImage = (img: string) => {
       const idx = images.indexOf(img);
@@ -100,7 +108,7 @@ export const DetailView: React.FC<DetailViewProps> = ({ entry, onBack, onEdit })
         animate={{ scale: 1, opacity: 1 }}
         transition={{ duration: 0.6, ease: [0.33, 1, 0.68, 1] }} // Slow ease-out
       >
-          <img 
+          <StoredImage 
             src={coverImage} 
             alt={entry.title}
             className="w-full h-full object-cover"
@@ -133,27 +141,50 @@ export const DetailView: React.FC<DetailViewProps> = ({ entry, onBack, onEdit })
                 </div>
             </div>
 
+            {/* Per-dimension Ratings */}
+            {dimensions.length > 0 && (
+                <div className="grid grid-cols-1 gap-1.5 mb-5">
+                    {dimensions.map(({ id, label, value }) => (
+                        <div key={id} className="flex items-center gap-3">
+                            <span className="w-12 text-[11px] text-stone-500">{label}</span>
+                            <StarRating value={value} size={12} className="!gap-1" />
+                            <span className="text-[11px] text-stone-400 tabular-nums">{value.toFixed(1)}</span>
+                        </div>
+                    ))}
+                </div>
+            )}
+
             {/* Compact Metadata Chips */}
             <div className="flex flex-wrap items-center gap-2 mb-6">
                  {/* Date */}
                  <div className="flex items-center gap-1.5 px-2.5 py-1 rounded-full bg-stone-100 border border-stone-200/50 text-[10px] text-stone-500 font-medium">
                      <Calendar size={10} />
-                     <span>{entry.date}</span>
+                     <span>{formatDateTime(entry.eatenAt)}</span>
                  </div>
                  
-                 {/* Location */}
-                 <div className="flex items-center gap-1.5 px-2.5 py-1 rounded-full bg-stone-100 border border-stone-200/50 text-[10px] text-stone-500 font-medium max-w-[120px]">
-                     <MapPin size={10} />
-                     <span className="truncate">{entry.location}</span>
-                 </div>
+                 {/* Location - opens the venue page when the entry has one */}
+                 {venue ? (
+                    <button
+                        onClick={() => onOpenVenue(venue.id)}
+                        title={entry.place?.address}
+                        className="flex items-center gap-1.5 px-2.5 py-1 rounded-full bg-stone-100 border border-stone-200/50 text-[10px] text-stone-600 font-medium max-w-[140px] hover:bg-stone-200 transition-colors"
+                    >
+                        <Store size={10} />
+                        <span className="truncate">{entry.location}</span>
+                        <ChevronRight size={10} className="flex-shrink-0 text-stone-400" />
+                    </button>
+                 ) : (
+                    <div title={entry.place?.address} className="flex items-center gap-1.5 px-2.5 py-1 rounded-full bg-stone-100 border border-stone-200/50 text-[10px] text-stone-500 font-medium max-w-[120px]">
+                        <MapPin size={10} />
+                        <span className="truncate">{entry.location}</span>
+                    </div>
+                 )}
 
                  {/* Weather */}
-                 {entry.weather && WeatherIcon && (
-                    <div className="flex items-center gap-1.5 px-2.5 py-1 rounded-full bg-blue-50/50 border border-blue-100 text-[10px] text-stone-600 font-medium">
-                         <WeatherIcon size={10} className="text-stone-400" />
-                         <span>{entry.weather.temperature}°</span>
-                    </div>
+                 {entry.weather && (
+                    <WeatherBadge weather={entry.weather} unit={temperatureUnit} showLabel className="px-2.5 py-1 rounded-full bg-blue-50/50 border border-blue-100 text-[10px] text-stone-600 font-medium" />
                  )}
+                 {weatherSummary && <span className="text-[10px] text-stone-400">{weatherSummary}</span>}
             </div>
 
             {/* Divider */}
@@ -166,6 +197,42 @@ export const DetailView: React.FC<DetailViewProps> = ({ entry, onBack, onEdit })
                 </p>
             </div>
 
+            {/* Dishes */}
+            {dishes.length > 0 && (
+                <div className="mb-8">
+                    <div className="flex items-baseline justify-between mb-3 pl-1">
+                        <h3 className="text-[10px] font-bold text-stone-400 uppercase tracking-widest">菜品</h3>
+                        {total !== null && <span className="text-[10px] text-stone-400">合计 {formatPrice(total)}</span>}
+                    </div>
+                    <div className="space-y-2">
+                        {dishes.map(dish => (
+                            <div key={dish.id} className="p-3 rounded-2xl bg-stone-50/80 border border-stone-100">
+                                <div className="flex items-center gap-2">
+                                    <span className="flex-1 min-w-0 text-sm text-stone-700 truncate">{dish.name}</span>
+                                    {dish.rating !== undefined && <StarRating value={dish.rating} size={10} className="!gap-0.5" />}
+                                    {dish.price !== undefined && <span className="text-xs text-stone-500 tabular-nums">{formatPrice(dish.price)}</span>}
+                                </div>
+                                {dish.note && <p className="mt-1 text-[12px] text-stone-500 font-light leading-relaxed">{dish.note}</p>}
+                                {dish.imageIndices && (
+                                    <div className="flex gap-1.5 mt-2">
+                                        {dish.imageIndices.filter(i => i < images.length).map(i => (
+                                            <motion.div
+                                                key={i}
+                                                className="w-12 h-12 rounded-lg overflow-hidden cursor-pointer"
+                                                onClick={() => handleOpenImage(images[i])}
+                                                whileTap={{ scale: 0.95 }}
+                                            >
+                                                <StoredImage src={images[i]} variant="thumb" className="w-full h-full object-cover" loading="lazy" />
+                                            </motion.div>
+                                        ))}
+                                    </div>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+
             {/* Tags */}
             <div className="flex flex-wrap gap-2 mb-8">
                 {entry.tags.map(tag => (
@@ -185,7 +252,7 @@ export const DetailView: React.FC<DetailViewProps> = ({ entry, onBack, onEdit })
                                 onClick={() => handleOpenImage(img)}
                                 whileTap={{ scale: 0.95 }}
                             >
-                                <img src={img} className="w-full h-full object-cover" loading="lazy" />
+                                <StoredImage src={img} variant="thumb" className="w-full h-full object-cover" loading="lazy" />
                             </motion.div>
                         ))}
                     </div>
@@ -225,7 +292,7 @@ export const DetailView: React.FC<DetailViewProps> = ({ entry, onBack, onEdit })
                     animate={{ scale: 1, opacity: 1 }}
                     exit={{ scale: 0.95, opacity: 0 }}
                     transition={{ type: "spring", stiffness: 300, damping: 30 }}
-                    src={viewImage} 
+                    src={viewImageSrc} 
                     className="max-w-full max-h-[85vh] object-contain shadow-2xl z-10"
                     onClick={(e) => e.stopPropagation()} 
                 />
@@ -257,7 +324,7 @@ export const DetailView: React.FC<DetailViewProps> = ({ entry, onBack, onEdit })
                     initial={{ y: 20, opacity: 0 }}
                     animate={{ y: 0, opacity: 1 }}
                     transition={{ delay: 0.2 }}
-                    onClick={(e) => handleDownload(e, viewImage)}
+                    onClick={(e) => viewImageSrc && handleDownload(e, viewImageSrc)}
                     whileTap={{ scale: 0.95 }}
                     className="absolute bottom-10 flex items-center gap-2 px-5 py-2.5 bg-white/10 hover:bg-white/20 border border-white/20 backdrop-blur-md rounded-full text-white text-xs font-medium tracking-wider transition-all z-50"
                 >
@@ -2,8 +2,11 @@ import React, { useState, useMemo, useRef, useLayoutEffect, useEffect } from 're
 import { motion, AnimatePresence } from 'framer-motion';
 import { FoodCard } from '../components/FoodCard';
 import { MiniCapsule } from '../components/MiniCapsule';
+import { FeedFilterSheet } from '../components/FeedFilterSheet';
 import { FoodEntry } from '../types';
-import { Trash2, X, LayoutGrid, LayoutList, Tag, FolderInput, ArrowRightLeft, AlertTriangle, CheckCircle2, Edit2, Check, GripVertical, ArrowDownUp } from 'lucide-react';
+import { FeedFilter, FeedSort, EMPTY_FILTER, applyFeed, countActiveFilters } from '../services/feed';
+import { TemperatureUnit } from '../utils/weatherCodes';
+import { Trash2, X, LayoutGrid, LayoutList, Tag, FolderInput, ArrowRightLeft, AlertTriangle, CheckCircle2, Edit2, Check, GripVertical, ArrowDownUp, SlidersHorizontal, Map as MapIcon } from 'lucide-react';
 
 // dnd-kit imports
 import {
@@ -30,7 +33,7 @@ import { CSS } from '@dnd-kit/utilities';
 
 interface HomeViewProps {
   entries: FoodEntry[];
-  onEntriesUpdate: (entries: FoodEntry[]) => void;
+  onEntriesUpdate: (entries: FoodEntry[], label?: string) => void;
   onEntryClick: (id: string) => void;
   layoutMode: 'grid' | 'list';
   onLayoutChange: (mode: 'grid' | 'list') => void;
@@ -40,6 +43,12 @@ interface HomeViewProps {
   onRenameTag: (oldTag: string, newTag: string) => void;
   onDeleteTag: (tag: string) => void;
   onReorderTags: (tags: string[]) => void;
+  feedFilter: FeedFilter;
+  feedSort: FeedSort;
+  onFeedFilterChange: (filter: FeedFilter) => void;
+  onFeedSortChange: (sort: FeedSort) => void;
+  onOpenMap: () => void;
+  temperatureUnit: TemperatureUnit;
 }
 
 // Wrapper Component for Sortable Cards
@@ -122,9 +131,14 @@ export const HomeView: React.FC<HomeViewProps> = ({
     tags,
     onRenameTag,
     onDeleteTag,
-    onReorderTags
+    onReorderTags,
+    feedFilter,
+    feedSort,
+    onFeedFilterChange,
+    onFeedSortChange,
+    onOpenMap,
+    temperatureUnit
 }) => {
-  const [activeCategory, setActiveCategory] = useState("全部");
   const [isSelectionMode, setIsSelectionMode] = useState(false);
   const [selectedIds, setSelectedIds] = useState<string[]>([]);
   const [activeDragId, setActiveDragId] = useState<string | null>(null);
@@ -143,6 +157,9 @@ export const HomeView: React.FC<HomeViewProps> = ({
   // Move Modal State
   const [showMoveModal, setShowMoveModal] = useState(false);
 
+  // Filter Sheet State
+  const [isFilterOpen, setIsFilterOpen] = useState(false);
+
   const containerRef = useRef<HTMLDivElement>(null);
 
   useLayoutEffect(() => {
@@ -172,10 +189,23 @@ export const HomeView: React.FC<HomeViewProps> = ({
   }, [tags]);
 
   const visibleEntries = useMemo(() => {
-      return activeCategory === "全部" 
-        ? entries 
-        : entries.filter(e => e.tags.includes(activeCategory));
-  }, [entries, activeCategory]);
+      return applyFeed(entries, feedFilter, feedSort);
+  }, [entries, feedFilter, feedSort]);
+
+  const activeFilterCount = countActiveFilters(feedFilter);
+
+  // The category bar is a shortcut for the tag part of the filter
+  const isCategoryActive = (cat: string) => cat === "全部" ? feedFilter.tags.length === 0 : feedFilter.tags.includes(cat);
+
+  const handleCategoryClick = (cat: string) => {
+      onFeedFilterChange({ ...feedFilter, tags: cat === "全部" ? [] : [cat] });
+  };
+
+  const replaceFilterTag = (oldTag: string, newTag?: string) => {
+      if (!feedFilter.tags.includes(oldTag)) return;
+      const remaining = feedFilter.tags.filter(t => t !== oldTag);
+      onFeedFilterChange({ ...feedFilter, tags: newTag && !remaining.includes(newTag) ? [...remaining, newTag] : remaining });
+  };
 
   // Handlers
   const handleDragStart = (event: DragStartEvent) => {
@@ -186,7 +216,7 @@ export const HomeView: React.FC<HomeViewProps> = ({
   const handleDragEnd = (event: DragEndEvent) => {
       setActiveDragId(null);
       const { active, over } = event;
-      if (active.id !== over?.id && activeCategory === "全部") {
+      if (active.id !== over?.id && !isDragDisabled) {
         const oldIndex = entries.findIndex((item) => item.id === active.id);
         const newIndex = entries.findIndex((item) => item.id === over?.id);
         if (oldIndex !== -1 && newIndex !== -1) {
@@ -249,9 +279,7 @@ export const HomeView: React.FC<HomeViewProps> = ({
   const executeRename = () => {
       if (manageTag && renameValue.trim() && renameValue !== manageTag) {
           onRenameTag(manageTag, renameValue.trim());
-          if (activeCategory === manageTag) {
-              setActiveCategory(renameValue.trim());
-          }
+          replaceFilterTag(manageTag, renameValue.trim());
       }
       closeManageModal();
   };
@@ -269,15 +297,15 @@ export const HomeView: React.FC<HomeViewProps> = ({
               ...e,
               tags: e.tags.filter(t => t !== manageTag)
            }));
-           onEntriesUpdate(updated);
+           onEntriesUpdate(updated, `已删除标签「${manageTag}」`);
            onDeleteTag(manageTag);
       } else if (deleteConfirmType === 'tag_all') {
            const updated = entries.filter(e => !e.tags.includes(manageTag));
-           onEntriesUpdate(updated);
+           onEntriesUpdate(updated, `已删除标签「${manageTag}」及 ${entries.length - updated.length} 条记录`);
            onDeleteTag(manageTag);
       }
 
-      if (activeCategory === manageTag) setActiveCategory("全部");
+      replaceFilterTag(manageTag);
       
       setDeleteConfirmType(null);
       closeManageModal();
@@ -285,7 +313,7 @@ export const HomeView: React.FC<HomeViewProps> = ({
 
   const executeDeleteCards = () => {
       const remaining = entries.filter(e => !selectedIds.includes(e.id));
-      onEntriesUpdate(remaining);
+      onEntriesUpdate(remaining, `已删除 ${entries.length - remaining.length} 条记录`);
       setIsSelectionMode(false);
       setSelectedIds([]);
       setDeleteConfirmType(null);
@@ -300,13 +328,14 @@ export const HomeView: React.FC<HomeViewProps> = ({
           }
           return e;
       });
-      onEntriesUpdate(updated);
+      onEntriesUpdate(updated, `已将 ${selectedIds.length} 条记录归入「${targetTag}」`);
       setIsSelectionMode(false);
       setSelectedIds([]);
       setShowMoveModal(false);
   };
 
-  const isDragDisabled = activeCategory !== "全部" || isSelectionMode;
+  // Manual drag order only makes sense on the full, unsorted feed
+  const isDragDisabled = feedSort.mode !== 'manual' || activeFilterCount > 0 || isSelectionMode;
 
   return (
     <div 
@@ -354,9 +383,18 @@ export const HomeView: React.FC<HomeViewProps> = ({
                     >
                         <h1 className="serif text-xl font-medium text-stone-800 tracking-wide pl-1">食 · 记</h1>
                         <div className="flex items-center gap-2">
+                             <button onClick={() => setIsFilterOpen(true)} className="relative w-9 h-9 flex items-center justify-center rounded-full text-stone-400 hover:bg-stone-100 transition-colors">
+                                <SlidersHorizontal size={16} />
+                                {(activeFilterCount > 0 || feedSort.mode !== 'manual') && (
+                                    <span className="absolute top-1.5 right-1.5 w-1.5 h-1.5 rounded-full bg-amber-500" />
+                                )}
+                             </button>
                              <button onClick={() => setIsSortModalOpen(true)} className="w-9 h-9 flex items-center justify-center rounded-full text-stone-400 hover:bg-stone-100 transition-colors">
                                 <ArrowDownUp size={16} />
                              </button>
+                             <button onClick={onOpenMap} className="w-9 h-9 flex items-center justify-center rounded-full text-stone-400 hover:bg-stone-100 transition-colors">
+                                <MapIcon size={16} />
+                             </button>
                             <button onClick={toggleSelectionMode} className="w-9 h-9 flex items-center justify-center rounded-full text-stone-400 hover:bg-stone-100 transition-colors">
                                 <CheckCircle2 size={18} />
                             </button>
@@ -399,10 +437,10 @@ export const HomeView: React.FC<HomeViewProps> = ({
                                         <motion.div key={cat} layout initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="flex-shrink-0 snap-center">
                                             <MiniCapsule 
                                                 label={cat} 
-                                                active={activeCategory === cat} 
-                                                onClick={() => setActiveCategory(cat)}
+                                                active={isCategoryActive(cat)} 
+                                                onClick={() => handleCategoryClick(cat)}
                                                 onLongPress={() => handleTagLongPress(cat)}
-                                                className={`!py-1.5 !px-4 !text-[10px] shadow-sm transition-all duration-300 ${activeCategory === cat ? '!shadow-md !bg-stone-800 !text-white scale-100 ring-1 ring-stone-800' : '!bg-white !border-stone-100 !text-stone-500 hover:!bg-stone-50 hover:scale-[1.02]'}`}
+                                                className={`!py-1.5 !px-4 !text-[10px] shadow-sm transition-all duration-300 ${isCategoryActive(cat) ? '!shadow-md !bg-stone-800 !text-white scale-100 ring-1 ring-stone-800' : '!bg-white !border-stone-100 !text-stone-500 hover:!bg-stone-50 hover:scale-[1.02]'}`}
                                             />
                                         </motion.div>
                                     ))}
@@ -416,13 +454,22 @@ export const HomeView: React.FC<HomeViewProps> = ({
             </AnimatePresence>
         </div>
 
+        {activeFilterCount > 0 && (
+            <div className="flex items-center justify-between mb-3 px-2 text-[10px] text-stone-400 tracking-wide">
+                <span>{activeFilterCount} 项筛选 · {visibleEntries.length} 条记录</span>
+                <button onClick={() => onFeedFilterChange(EMPTY_FILTER)} className="text-stone-500 hover:text-stone-800 underline underline-offset-2">
+                    清除
+                </button>
+            </div>
+        )}
+
         {/* Card Feed */}
         <DndContext sensors={sensors} collisionDetection={closestCenter} onDragStart={handleDragStart} onDragEnd={handleDragEnd}>
             <SortableContext items={visibleEntries.map(e => e.id)} strategy={layoutMode === 'grid' ? rectSortingStrategy : verticalListSortingStrategy} disabled={isDragDisabled}>
                 <motion.div layout className={layoutMode === 'grid' ? "grid grid-cols-2 gap-3" : "flex flex-col gap-2"}>
                     {visibleEntries.map((entry, index) => (
                         <SortableFoodCardWrapper key={entry.id} id={entry.id} disabled={isDragDisabled}>
-                            <FoodCard entry={entry} index={index} isSelectionMode={isSelectionMode} isSelected={selectedIds.includes(entry.id)} layoutMode={layoutMode} onClick={() => handleCardClick(entry.id)} onLongPress={() => handleCardLongPress(entry.id)} />
+                            <FoodCard entry={entry} index={index} isSelectionMode={isSelectionMode} isSelected={selectedIds.includes(entry.id)} layoutMode={layoutMode} temperatureUnit={temperatureUnit} onClick={() => handleCardClick(entry.id)} onLongPress={() => handleCardLongPress(entry.id)} />
                         </SortableFoodCardWrapper>
                     ))}
                 </motion.div>
@@ -430,7 +477,7 @@ export const HomeView: React.FC<HomeViewProps> = ({
             <DragOverlay adjustScale={true}>
                 {activeDragId ? (
                     <div className="opacity-90 scale-105 cursor-grabbing z-50 pointer-events-none">
-                         <FoodCard entry={entries.find(e => e.id === activeDragId)!} index={0} isSelectionMode={isSelectionMode} isSelected={selectedIds.includes(activeDragId)} layoutMode={layoutMode} onClick={() => {}} />
+                         <FoodCard entry={entries.find(e => e.id === activeDragId)!} index={0} isSelectionMode={isSelectionMode} isSelected={selectedIds.includes(activeDragId)} layoutMode={layoutMode} temperatureUnit={temperatureUnit} onClick={() => {}} />
                     </div>
                 ) : null}
             </DragOverlay>
@@ -489,6 +536,16 @@ export const HomeView: React.FC<HomeViewProps> = ({
                 </motion.div>
             )}
         </AnimatePresence>
+        <FeedFilterSheet
+            isOpen={isFilterOpen}
+            onClose={() => setIsFilterOpen(false)}
+            tags={tags}
+            filter={feedFilter}
+            sort={feedSort}
+            onFilterChange={onFeedFilterChange}
+            onSortChange={onFeedSortChange}
+            resultCount={visibleEntries.length}
+        />
         <AnimatePresence>
             {isSortModalOpen && (
                 <motion.div 
@@ -537,7 +594,7 @@ export const HomeView: React.FC<HomeViewProps> = ({
                         {deleteConfirmType === 'cards' ? (
                              <>
                                 <h3 className="text-sm font-bold text-stone-800 mb-1">确认删除?</h3>
-                                <p className="text-xs text-stone-500 mb-5 leading-relaxed">删除选中的记录？此操作无法撤销。</p>
+                                <p className="text-xs text-stone-500 mb-5 leading-relaxed">选中的记录将移入回收站，可随时恢复。</p>
                                 <div className="flex gap-3 w-full">
                                     <button onClick={() => setDeleteConfirmType(null)} className="flex-1 py-2 text-xs font-medium text-stone-500 bg-stone-100 rounded-lg">取消</button>
                                     <button onClick={executeDeleteCards} className="flex-1 py-2 text-xs font-medium text-white bg-red-500 rounded-lg hover:bg-red-600">确认删除</button>
@@ -0,0 +1,174 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { motion } from 'framer-motion';
+import { ArrowLeft, Map as MapIcon, List, MapPin, Loader2 } from 'lucide-react';
+import { FoodEntry } from '../types';
+import { MiniCapsule } from '../components/MiniCapsule';
+import { StoredImage } from '../components/StoredImage';
+import { FeedFilter, DEFAULT_SORT, applyFeed } from '../services/feed';
+import { UNKNOWN_LOCATION, entryPlace, placeCoordinates } from '../services/places';
+import { isImageRef, resolveImageUrl } from '../services/storage';
+import { MapHandle, MapPoint, getMapProvider } from '../services/mapProvider';
+import { formatShortDate } from '../utils/date';
+
+interface MapViewProps {
+  entries: FoodEntry[];
+  tags: string[];
+  feedFilter: FeedFilter; // Shared with HomeView, so the map shows the same entries as the feed
+  onFeedFilterChange: (filter: FeedFilter) => void;
+  onEntryClick: (id: string) => void;
+  onBack: () => void;
+}
+
+export const MapView: React.FC<MapViewProps> = ({ entries, tags, feedFilter, onFeedFilterChange, onEntryClick, onBack }) => {
+  const [mode, setMode] = useState<'map' | 'list'>('map');
+  const [mapStatus, setMapStatus] = useState<'loading' | 'ready' | 'unavailable'>('loading');
+
+  const mapContainerRef = useRef<HTMLDivElement>(null);
+  const mapRef = useRef<MapHandle | null>(null);
+  const onEntryClickRef = useRef(onEntryClick);
+  onEntryClickRef.current = onEntryClick;
+
+  const visibleEntries = useMemo(() => applyFeed(entries, feedFilter, DEFAULT_SORT), [entries, feedFilter]);
+  const located = useMemo(() => visibleEntries.filter(e => placeCoordinates(e)), [visibleEntries]);
+  const unlocatedCount = visibleEntries.length - located.length;
+
+  // Entries grouped by place name, for the list mode
+  const groups = useMemo(() => {
+      const byName = new Map<string, FoodEntry[]>();
+      visibleEntries.forEach(entry => {
+          const name = entryPlace(entry).name || UNKNOWN_LOCATION;
+          byName.set(name, [...(byName.get(name) || []), entry]);
+      });
+      return Array.from(byName, ([name, items]) => ({ name, address: items.find(e => e.place?.address)?.place?.address, items }));
+  }, [visibleEntries]);
+
+  const toggleTag = (tag: string | null) => {
+      if (tag === null) onFeedFilterChange({ ...feedFilter, tags: [] });
+      else onFeedFilterChange({ ...feedFilter, tags: feedFilter.tags.includes(tag) ? feedFilter.tags.filter(t => t !== tag) : [...feedFilter.tags, tag] });
+  };
+
+  // Create the map once the provider is available
+  useEffect(() => {
+      let cancelled = false;
+      const provider = getMapProvider();
+      const unavailable = () => {
+          setMapStatus('unavailable');
+          setMode('list');
+      };
+      provider.ready()
+        .then(() => {
+            if (cancelled) return;
+            if (!provider.createMap || !mapContainerRef.current) {
+                unavailable();
+                return;
+            }
+            mapRef.current = provider.createMap(mapContainerRef.current, 4);
+            setMapStatus('ready');
+        })
+        .catch(error => {
+            console.error("Map Init Error:", error);
+            if (!cancelled) unavailable();
+        });
+      return () => {
+          cancelled = true;
+          mapRef.current?.destroy();
+          mapRef.current = null;
+      };
+  }, []);
+
+  // Feed markers whenever the filtered entries change
+  useEffect(() => {
+      if (mapStatus !== 'ready' || !mapRef.current) return;
+      let cancelled = false;
+      Promise.all(located.map(async (entry): Promise<MapPoint> => {
+          const cover = entry.images[entry.coverImageIndex] || entry.images[0];
+          const thumb = isImageRef(cover) ? await resolveImageUrl(cover, 'thumb').catch(() => undefined) : cover;
+          return { id: entry.id, position: placeCoordinates(entry)!, thumb };
+      })).then(points => {
+          if (!cancelled) mapRef.current?.setPoints(points, id => onEntryClickRef.current(id));
+      });
+      return () => { cancelled = true; };
+  }, [located, mapStatus]);
+
+  return (
+    <div className="h-screen flex flex-col">
+        {/* Header */}
+        <div className="px-5 pt-10 pb-3 bg-[#FAFAF9]/90 backdrop-blur-md z-10">
+            <div className="flex items-center justify-between mb-4">
+                <div className="flex items-center gap-3">
+                    <button onClick={onBack} className="w-9 h-9 rounded-full bg-white/80 border border-white/60 shadow-sm flex items-center justify-center text-stone-600 hover:bg-white transition-colors">
+                        <ArrowLeft size={18} />
+                    </button>
+                    <div>
+                        <h2 className="serif text-2xl text-stone-800">美食地图</h2>
+                        <p className="text-xs text-stone-400 tracking-wider">{located.length} 个有坐标的记录</p>
+                    </div>
+                </div>
+                {mapStatus !== 'unavailable' && (
+                    <button onClick={() => setMode(mode === 'map' ? 'list' : 'map')} className="w-9 h-9 flex items-center justify-center rounded-full text-stone-400 hover:bg-stone-100 transition-colors">
+                        {mode === 'map' ? <List size={18} /> : <MapIcon size={18} />}
+                    </button>
+                )}
+            </div>
+            <div className="flex gap-2 overflow-x-auto no-scrollbar">
+                <MiniCapsule label="全部" active={feedFilter.tags.length === 0} onClick={() => toggleTag(null)} />
+                {tags.map(tag => (
+                    <MiniCapsule key={tag} label={tag} active={feedFilter.tags.includes(tag)} onClick={() => toggleTag(tag)} />
+                ))}
+            </div>
+        </div>
+
+        {/* The map stays mounted while the list is shown, so switching back is instant */}
+        <div className={mode === 'map' ? "flex-1 relative bg-stone-200" : "hidden"}>
+            <div ref={mapContainerRef} className="w-full h-full" />
+            {mapStatus === 'loading' && (
+                <div className="absolute inset-0 flex items-center justify-center text-stone-400">
+                    <Loader2 size={20} className="animate-spin" />
+                </div>
+            )}
+            {unlocatedCount > 0 && mapStatus === 'ready' && (
+                <button onClick={() => setMode('list')} className="absolute bottom-6 left-1/2 -translate-x-1/2 px-4 py-2 rounded-full bg-white/90 backdrop-blur-md shadow-lg text-[10px] text-stone-500 tracking-wider">
+                    {unlocatedCount} 条记录没有坐标 · 查看列表
+                </button>
+            )}
+        </div>
+
+        {mode === 'list' && (
+            <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="flex-1 overflow-y-auto px-5 pb-10">
+                {mapStatus === 'unavailable' && (
+                    <p className="text-[10px] text-stone-400 tracking-wider mb-4">地图暂时无法加载，已按地点列出记录</p>
+                )}
+                {groups.length === 0 ? (
+                    <div className="flex flex-col items-center justify-center py-24 text-stone-300">
+                        <MapPin size={28} className="mb-3" />
+                        <p className="text-xs tracking-wider">没有符合条件的记录</p>
+                    </div>
+                ) : (
+                    <div className="space-y-5">
+                        {groups.map(group => (
+                            <div key={group.name}>
+                                <div className="flex items-baseline gap-2 mb-2 px-1">
+                                    <MapPin size={12} className="text-stone-400 self-center" />
+                                    <span className="text-sm text-stone-700">{group.name}</span>
+                                    {group.address && <span className="text-[10px] text-stone-400 truncate">{group.address}</span>}
+                                </div>
+                                <div className="space-y-2">
+                                    {group.items.map(entry => (
+                                        <button key={entry.id} onClick={() => onEntryClick(entry.id)} className="flex items-center gap-3 w-full p-3 rounded-2xl bg-white/80 border border-white/60 shadow-sm text-left hover:bg-white transition-colors">
+                                            <StoredImage src={entry.images[entry.coverImageIndex]} variant="thumb" className="w-12 h-12 rounded-xl object-cover bg-stone-100 flex-shrink-0" />
+                                            <div className="flex-1 min-w-0">
+                                                <div className="text-sm text-stone-700 truncate">{entry.title || '未命名'}</div>
+                                                <div className="text-[10px] text-stone-400">{formatShortDate(entry.eatenAt)}</div>
+                                            </div>
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </motion.div>
+        )}
+    </div>
+  );
+};
@@ -0,0 +1,32 @@
+import React from 'react';
+import { motion } from 'framer-motion';
+import { ArrowLeft, SearchX } from 'lucide-react';
+
+interface NotFoundViewProps {
+  onHome: () => void;
+}
+
+export const NotFoundView: React.FC<NotFoundViewProps> = ({ onHome }) => {
+  return (
+    <div className="h-full min-h-screen flex items-center justify-center px-8">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="flex flex-col items-center text-center"
+      >
+        <div className="w-16 h-16 rounded-full bg-stone-100 flex items-center justify-center text-stone-400 mb-5 shadow-inner">
+            <SearchX size={24} />
+        </div>
+        <h2 className="serif text-2xl text-stone-800 mb-2">找不到这条食记</h2>
+        <p className="text-xs text-stone-400 tracking-wider mb-8">它可能已被删除，或链接有误</p>
+        <button
+            onClick={onHome}
+            className="flex items-center gap-2 px-5 py-2.5 rounded-full bg-stone-900 text-white text-xs font-medium tracking-wider shadow-lg shadow-stone-300 hover:bg-stone-800 transition-colors"
+        >
+            <ArrowLeft size={14} />
+            回到首页
+        </button>
+      </motion.div>
+    </div>
+  );
+};
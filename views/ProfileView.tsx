@@ -0,0 +1,250 @@
+import React, { useMemo, useState, useEffect } from 'react';
+import { motion } from 'framer-motion';
+import { Flame, Trophy, Star, BookOpen, Trash2, ChevronRight, ImageDown, Thermometer, Scale, FileWarning, Download } from 'lucide-react';
+import { FoodEntry, RatingDimension, Venue } from '../types';
+import { BarChart, LineChart, DonutChart } from '../components/Charts';
+import { WEATHER_TYPES } from '../components/WeatherIcon';
+import { BackupPanel } from '../components/BackupPanel';
+import { MiniCapsule } from '../components/MiniCapsule';
+import { computeStats, RankedItem } from '../services/stats';
+import { BackupPreferences } from '../services/backup';
+import { getPreference, loadQuarantine, setPreference } from '../services/storage';
+import { QuarantinedRecord } from '../services/migrations';
+import { RATING_DIMENSIONS, RatingWeights, WEIGHT_STEPS } from '../services/ratings';
+import { BYTE_BUDGET_OPTIONS, DEFAULT_BYTE_BUDGET } from '../utils/imageProcessing';
+import { TemperatureUnit } from '../utils/weatherCodes';
+import { downloadBlob, fileDateStamp } from '../utils/download';
+
+interface ProfileViewProps {
+  entries: FoodEntry[];
+  tags: string[];
+  venues: Venue[];
+  preferences: BackupPreferences;
+  onImport: (entries: FoodEntry[], tags: string[], venues: Venue[], preferences?: BackupPreferences) => void;
+  onImportCsv: (entries: FoodEntry[], newTags: string[]) => void;
+  trashCount: number;
+  onOpenTrash: () => void;
+  temperatureUnit: TemperatureUnit;
+  onTemperatureUnitChange: (unit: TemperatureUnit) => void;
+  ratingWeights: RatingWeights;
+  onRatingWeightsChange: (weights: RatingWeights) => void;
+}
+
+const cardClass = "bg-white/80 backdrop-blur-xl border border-white/60 rounded-3xl p-5 shadow-sm";
+const titleClass = "text-[10px] font-bold text-stone-400 uppercase tracking-widest mb-4";
+
+const RankList: React.FC<{ items: RankedItem[]; empty: string }> = ({ items, empty }) => {
+  if (items.length === 0) return <p className="text-xs text-stone-300">{empty}</p>;
+  const max = items[0].count;
+  return (
+    <div className="space-y-2.5">
+      {items.map(item => (
+        <div key={item.label} className="flex items-center gap-3">
+          <span className="text-xs text-stone-600 w-20 truncate">{item.label}</span>
+          <div className="flex-1 h-1.5 bg-stone-100 rounded-full overflow-hidden">
+            <div className="h-full bg-stone-700 rounded-full" style={{ width: `${(item.count / max) * 100}%` }} />
+          </div>
+          <span className="text-[10px] text-stone-400 w-6 text-right">{item.count}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export const ProfileView: React.FC<ProfileViewProps> = ({ entries, tags, venues, preferences, onImport, onImportCsv, trashCount, onOpenTrash, temperatureUnit, onTemperatureUnitChange, ratingWeights, onRatingWeightsChange }) => {
+  const stats = useMemo(() => computeStats(entries), [entries]);
+  const [byteBudget, setByteBudget] = useState(DEFAULT_BYTE_BUDGET);
+  const [quarantine, setQuarantine] = useState<QuarantinedRecord[]>([]);
+
+  useEffect(() => {
+    getPreference('image_byte_budget')
+      .then(budget => { if (budget) setByteBudget(budget); })
+      .catch(e => console.warn("Failed to load image size preference", e));
+    loadQuarantine()
+      .then(setQuarantine)
+      .catch(e => console.warn("Failed to load quarantined records", e));
+  }, []);
+
+  const handleByteBudgetChange = (bytes: number) => {
+    setByteBudget(bytes);
+    setPreference('image_byte_budget', bytes).catch(e => console.error("Failed to save image size preference", e));
+  };
+
+  const handleWeightChange = (dimension: RatingDimension, weight: number) => {
+    if (ratingWeights[dimension] !== weight) onRatingWeightsChange({ ...ratingWeights, [dimension]: weight });
+  };
+
+  const handleExportQuarantine = () => {
+    downloadBlob(new Blob([JSON.stringify(quarantine, null, 2)], { type: 'application/json' }), `gourmet-journal-quarantine-${fileDateStamp()}.json`);
+  };
+
+  const monthLabels = stats.months.map(m => `${Number(m.month.slice(5))}月`);
+
+  const summary = [
+    { icon: BookOpen, label: '记录', value: String(stats.total) },
+    { icon: Star, label: '平均评分', value: stats.averageRating !== null ? stats.averageRating.toFixed(1) : '—' },
+    { icon: Flame, label: '连续天数', value: String(stats.streaks.current) },
+    { icon: Trophy, label: '最长连续', value: String(stats.streaks.longest) }
+  ];
+
+  const weatherSlices = stats.weather.map(w => {
+    const type = WEATHER_TYPES.find(t => t.group === w.group)!;
+    return { label: type.label, value: w.count, color: type.hex };
+  });
+
+  return (
+    <div className="pb-32 pt-10 px-5 max-w-2xl mx-auto min-h-screen">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        exit={{ opacity: 0, y: -20 }}
+        className="space-y-4"
+      >
+        {/* Header */}
+        <div className="flex items-center gap-4 mb-6 px-1">
+            <div className="w-14 h-14 rounded-full bg-stone-200 flex items-center justify-center shadow-inner">
+                <span className="serif text-xl text-stone-500">我</span>
+            </div>
+            <div>
+                <h2 className="serif text-2xl text-stone-800">我的食记</h2>
+                <p className="text-xs text-stone-400 tracking-wider">每一口都值得被记住</p>
+            </div>
+        </div>
+
+        {/* Summary */}
+        <div className="grid grid-cols-4 gap-2">
+            {summary.map(({ icon: Icon, label, value }) => (
+                <div key={label} className="bg-white/80 border border-white/60 rounded-2xl py-3 flex flex-col items-center gap-1 shadow-sm">
+                    <Icon size={14} className="text-stone-400" />
+                    <span className="serif text-lg text-stone-800">{value}</span>
+                    <span className="text-[9px] text-stone-400 tracking-wide">{label}</span>
+                </div>
+            ))}
+        </div>
+
+        {/* Entries per month */}
+        <div className={cardClass}>
+            <h3 className={titleClass}>每月记录</h3>
+            <BarChart data={stats.months.map((m, i) => ({ label: monthLabels[i], value: m.count }))} />
+        </div>
+
+        {/* Rating trend */}
+        <div className={cardClass}>
+            <h3 className={titleClass}>评分走势</h3>
+            <LineChart data={stats.months.map((m, i) => ({ label: monthLabels[i], value: m.averageRating }))} />
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className={cardClass}>
+                <h3 className={titleClass}>常用标签</h3>
+                <RankList items={stats.topTags} empty="暂无标签" />
+            </div>
+            <div className={cardClass}>
+                <h3 className={titleClass}>常去地点</h3>
+                <RankList items={stats.topLocations} empty="暂无地点" />
+            </div>
+        </div>
+
+        {/* Weather distribution */}
+        <div className={cardClass}>
+            <h3 className={titleClass}>用餐天气</h3>
+            {weatherSlices.length === 0 ? (
+                <p className="text-xs text-stone-300">暂无天气记录</p>
+            ) : (
+                <div className="flex items-center gap-6">
+                    <DonutChart data={weatherSlices} />
+                    <div className="space-y-1.5">
+                        {weatherSlices.map(slice => (
+                            <div key={slice.label} className="flex items-center gap-2 text-xs text-stone-600">
+                                <span className="w-2 h-2 rounded-full" style={{ backgroundColor: slice.color }} />
+                                <span>{slice.label}</span>
+                                <span className="text-stone-400">{slice.value}</span>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+        </div>
+
+        {/* Data management */}
+        <div className={cardClass}>
+            <h3 className={titleClass}>数据</h3>
+            <BackupPanel entries={entries} tags={tags} venues={venues} preferences={preferences} onImport={onImport} onImportCsv={onImportCsv} />
+            <button onClick={onOpenTrash} className="flex items-center gap-3 w-full p-3 mt-2 rounded-2xl bg-stone-50 hover:bg-stone-100 transition-colors text-left">
+                <div className="w-9 h-9 rounded-full bg-white flex items-center justify-center text-stone-500 shadow-sm">
+                    <Trash2 size={16} />
+                </div>
+                <div className="flex-1 min-w-0">
+                    <div className="text-xs font-medium text-stone-700">回收站</div>
+                    <div className="text-[10px] text-stone-400">{trashCount > 0 ? `${trashCount} 条已删除的记录` : '空'}</div>
+                </div>
+                <ChevronRight size={14} className="text-stone-300" />
+            </button>
+            {quarantine.length > 0 && (
+                <button onClick={handleExportQuarantine} className="flex items-center gap-3 w-full p-3 mt-2 rounded-2xl bg-stone-50 hover:bg-stone-100 transition-colors text-left">
+                    <div className="w-9 h-9 rounded-full bg-white flex items-center justify-center text-amber-500 shadow-sm">
+                        <FileWarning size={16} />
+                    </div>
+                    <div className="flex-1 min-w-0">
+                        <div className="text-xs font-medium text-stone-700">无法读取的记录</div>
+                        <div className="text-[10px] text-stone-400">{quarantine.length} 条记录已隔离，导出原始数据以便排查</div>
+                    </div>
+                    <Download size={14} className="text-stone-300" />
+                </button>
+            )}
+            <div className="flex items-center gap-3 w-full p-3 mt-2 rounded-2xl bg-stone-50">
+                <div className="w-9 h-9 rounded-full bg-white flex items-center justify-center text-stone-500 shadow-sm">
+                    <ImageDown size={16} />
+                </div>
+                <div className="flex-1 min-w-0">
+                    <div className="text-xs font-medium text-stone-700">照片大小</div>
+                    <div className="text-[10px] text-stone-400">每张新照片不超过 {Math.round(byteBudget / 1024)} KB</div>
+                </div>
+                <div className="flex gap-1.5">
+                    {BYTE_BUDGET_OPTIONS.map(option => (
+                        <MiniCapsule key={option.bytes} label={option.label} active={byteBudget === option.bytes} onClick={() => handleByteBudgetChange(option.bytes)} />
+                    ))}
+                </div>
+            </div>
+            <div className="flex items-center gap-3 w-full p-3 mt-2 rounded-2xl bg-stone-50">
+                <div className="w-9 h-9 rounded-full bg-white flex items-center justify-center text-stone-500 shadow-sm">
+                    <Thermometer size={16} />
+                </div>
+                <div className="flex-1 min-w-0">
+                    <div className="text-xs font-medium text-stone-700">温度单位</div>
+                    <div className="text-[10px] text-stone-400">用于卡片、详情和天气输入</div>
+                </div>
+                <div className="flex gap-1.5">
+                    {(['C', 'F'] as TemperatureUnit[]).map(unit => (
+                        <MiniCapsule key={unit} label={`°${unit}`} active={temperatureUnit === unit} onClick={() => onTemperatureUnitChange(unit)} />
+                    ))}
+                </div>
+            </div>
+            <div className="w-full p-3 mt-2 rounded-2xl bg-stone-50">
+                <div className="flex items-center gap-3">
+                    <div className="w-9 h-9 rounded-full bg-white flex items-center justify-center text-stone-500 shadow-sm">
+                        <Scale size={16} />
+                    </div>
+                    <div className="flex-1 min-w-0">
+                        <div className="text-xs font-medium text-stone-700">评分权重</div>
+                        <div className="text-[10px] text-stone-400">分项评分按权重计算总分，0 表示不使用该项</div>
+                    </div>
+                </div>
+                <div className="mt-3 space-y-2 pl-12">
+                    {RATING_DIMENSIONS.map(({ id, label }) => (
+                        <div key={id} className="flex items-center gap-3">
+                            <span className="flex-1 text-[11px] text-stone-600">{label}</span>
+                            <div className="flex gap-1.5">
+                                {WEIGHT_STEPS.map(step => (
+                                    <MiniCapsule key={step} label={String(step)} active={ratingWeights[id] === step} onClick={() => handleWeightChange(id, step)} className="!px-3" />
+                                ))}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            </div>
+        </div>
+      </motion.div>
+    </div>
+  );
+};
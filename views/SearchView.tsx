@@ -0,0 +1,128 @@
+import React, { useMemo, useState, useEffect } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Search, X, UtensilsCrossed } from 'lucide-react';
+import { FoodEntry } from '../types';
+import { FoodCard } from '../components/FoodCard';
+import { MiniCapsule } from '../components/MiniCapsule';
+import { Highlight } from '../components/Highlight';
+import { buildSearchIndex, matchesQuery } from '../services/search';
+import { TemperatureUnit } from '../utils/weatherCodes';
+
+interface SearchViewProps {
+  entries: FoodEntry[];
+  tags: string[];
+  query: string;
+  onQueryChange: (query: string) => void;
+  onEntryClick: (id: string) => void;
+  temperatureUnit: TemperatureUnit;
+}
+
+export const SearchView: React.FC<SearchViewProps> = ({ entries, tags, query, onQueryChange, onEntryClick, temperatureUnit }) => {
+  // Local input state so typing stays responsive; results follow after a short pause
+  const [input, setInput] = useState(query);
+  const [debouncedQuery, setDebouncedQuery] = useState(query);
+
+  useEffect(() => {
+      const timer = setTimeout(() => {
+          setDebouncedQuery(input);
+          onQueryChange(input);
+      }, 200);
+      return () => clearTimeout(timer);
+  }, [input]);
+
+  const index = useMemo(() => buildSearchIndex(entries), [entries]);
+  const results = useMemo(() => index.search(debouncedQuery), [index, debouncedQuery]);
+
+  const hasQuery = debouncedQuery.trim().length > 0;
+
+  return (
+    <div className="pb-32 pt-10 px-6 max-w-2xl mx-auto h-full min-h-screen">
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        transition={{ duration: 0.5 }}
+      >
+        <div className="flex justify-between items-end mb-6">
+            <div>
+                <h2 className="serif text-3xl text-stone-800 mb-1">拾光</h2>
+                <p className="text-xs text-stone-400 tracking-wider">在记忆里寻找味道</p>
+            </div>
+            <div className="text-[10px] font-medium tracking-widest text-stone-400 border border-stone-200 rounded-full px-4 py-1.5 uppercase">
+                {hasQuery ? `${results.length} 条结果` : `${entries.length} 个瞬间`}
+            </div>
+        </div>
+
+        {/* Search Input */}
+        <div className="relative mb-6">
+            <input
+                autoFocus
+                type="search"
+                value={input}
+                onChange={(e) => setInput(e.target.value)}
+                placeholder="搜索菜名、菜品、地点、标签或心得..."
+                className="w-full bg-white/60 backdrop-blur-md border border-stone-200/50 rounded-full pl-11 pr-10 py-3 text-sm text-stone-700 placeholder-stone-400 focus:outline-none focus:bg-white focus:border-stone-300 focus:shadow-sm transition-all duration-300 [&::-webkit-search-cancel-button]:hidden"
+            />
+            <Search size={16} className="absolute left-4 top-1/2 -translate-y-1/2 text-stone-400" />
+            {input && (
+                <button
+                    onClick={() => setInput('')}
+                    className="absolute right-3 top-1/2 -translate-y-1/2 w-6 h-6 flex items-center justify-center rounded-full bg-stone-100 text-stone-400 hover:text-stone-600"
+                >
+                    <X size={12} />
+                </button>
+            )}
+        </div>
+
+        {!hasQuery ? (
+            // Quick searches by tag
+            <div className="flex flex-wrap gap-2">
+                {tags.map(tag => (
+                    <MiniCapsule key={tag} label={tag} variant="outline" onClick={() => setInput(tag)} />
+                ))}
+            </div>
+        ) : results.length > 0 ? (
+            <div className="flex flex-col gap-2">
+                <AnimatePresence initial={false}>
+                    {results.map(({ entry, fields }, index) => {
+                        // Dishes aren't on the card, so list the ones that matched under it
+                        const dishes = fields.includes('dishes') ? (entry.dishes ?? []).filter(d => matchesQuery([d.name, d.note].filter(Boolean).join(' '), debouncedQuery)) : [];
+                        return (
+                        <motion.div
+                            key={entry.id}
+                            layout
+                            initial={{ opacity: 0, y: 10 }}
+                            animate={{ opacity: 1, y: 0 }}
+                            exit={{ opacity: 0 }}
+                            transition={{ delay: Math.min(index, 8) * 0.03 }}
+                        >
+                            <FoodCard
+                                entry={entry}
+                                index={index}
+                                layoutMode="list"
+                                highlightQuery={debouncedQuery}
+                                temperatureUnit={temperatureUnit}
+                                onClick={() => onEntryClick(entry.id)}
+                            />
+                            {dishes.length > 0 && (
+                                <div className="flex flex-wrap items-center gap-1.5 px-3 pt-1.5 text-[10px] text-stone-500">
+                                    <UtensilsCrossed size={10} className="text-stone-400" />
+                                    {dishes.map(dish => (
+                                        <span key={dish.id} className="bg-stone-100 px-1.5 py-0.5 rounded-md"><Highlight text={dish.name} query={debouncedQuery} /></span>
+                                    ))}
+                                </div>
+                            )}
+                        </motion.div>
+                        );
+                    })}
+                </AnimatePresence>
+            </div>
+        ) : (
+            <div className="flex flex-col items-center justify-center py-20 text-stone-300">
+                <div className="text-4xl mb-2">🍃</div>
+                <p className="text-xs tracking-widest">没有找到相关记录</p>
+            </div>
+        )}
+      </motion.div>
+    </div>
+  );
+};
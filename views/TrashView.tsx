@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { ArrowLeft, RotateCcw, Trash2, AlertTriangle } from 'lucide-react';
+import { FoodEntry } from '../types';
+import { StoredImage } from '../components/StoredImage';
+import { MiniCapsule } from '../components/MiniCapsule';
+import { RETENTION_OPTIONS, daysUntilPurge } from '../services/trash';
+import { formatShortDate } from '../utils/date';
+
+interface TrashViewProps {
+  trash: FoodEntry[];
+  retentionDays: number;
+  onRetentionChange: (days: number) => void;
+  onRestore: (ids: string[]) => void;
+  onDeletePermanently: (ids: string[]) => void;
+  onBack: () => void;
+}
+
+export const TrashView: React.FC<TrashViewProps> = ({ trash, retentionDays, onRetentionChange, onRestore, onDeletePermanently, onBack }) => {
+  // Ids awaiting confirmation for permanent deletion
+  const [confirmIds, setConfirmIds] = useState<string[] | null>(null);
+
+  const executeDelete = () => {
+      if (confirmIds) onDeletePermanently(confirmIds);
+      setConfirmIds(null);
+  };
+
+  return (
+    <div className="pb-20 pt-10 px-5 max-w-2xl mx-auto min-h-screen">
+      <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }}>
+        {/* Header */}
+        <div className="flex items-center justify-between mb-6">
+            <div className="flex items-center gap-3">
+                <button onClick={onBack} className="w-9 h-9 rounded-full bg-white/80 border border-white/60 shadow-sm flex items-center justify-center text-stone-600 hover:bg-white transition-colors">
+                    <ArrowLeft size={18} />
+                </button>
+                <div>
+                    <h2 className="serif text-2xl text-stone-800">回收站</h2>
+                    <p className="text-xs text-stone-400 tracking-wider">删除的记录保留 {retentionDays} 天后自动清除</p>
+                </div>
+            </div>
+            {trash.length > 0 && (
+                <button onClick={() => setConfirmIds(trash.map(e => e.id))} className="text-[10px] text-stone-400 hover:text-red-500 tracking-wider">
+                    清空
+                </button>
+            )}
+        </div>
+
+        {/* Retention */}
+        <div className="flex items-center gap-2 mb-6">
+            <span className="text-[10px] font-bold text-stone-400 uppercase tracking-widest mr-1">保留</span>
+            {RETENTION_OPTIONS.map(days => (
+                <MiniCapsule key={days} label={`${days} 天`} active={retentionDays === days} onClick={() => onRetentionChange(days)} />
+            ))}
+        </div>
+
+        {trash.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-24 text-stone-300">
+                <Trash2 size={28} className="mb-3" />
+                <p className="text-xs tracking-wider">回收站是空的</p>
+            </div>
+        ) : (
+            <div className="space-y-2">
+                {trash.map(entry => {
+                    const daysLeft = daysUntilPurge(entry, retentionDays);
+                    return (
+                        <div key={entry.id} className="flex items-center gap-3 p-3 rounded-2xl bg-white/80 border border-white/60 shadow-sm">
+                            <StoredImage src={entry.images[entry.coverImageIndex]} variant="thumb" className="w-12 h-12 rounded-xl object-cover bg-stone-100 flex-shrink-0 grayscale-[40%]" />
+                            <div className="flex-1 min-w-0">
+                                <div className="text-sm text-stone-700 truncate">{entry.title || '未命名'}</div>
+                                <div className="text-[10px] text-stone-400">
+                                    {entry.deletedAt && `${formatShortDate(entry.deletedAt)} 删除 · `}
+                                    {daysLeft > 0 ? `${daysLeft} 天后清除` : '即将清除'}
+                                </div>
+                            </div>
+                            <button onClick={() => onRestore([entry.id])} className="w-8 h-8 flex items-center justify-center rounded-full bg-stone-100 text-stone-600 hover:bg-stone-800 hover:text-white transition-colors" title="恢复">
+                                <RotateCcw size={14} />
+                            </button>
+                            <button onClick={() => setConfirmIds([entry.id])} className="w-8 h-8 flex items-center justify-center rounded-full bg-stone-100 text-stone-600 hover:bg-red-100 hover:text-red-500 transition-colors" title="彻底删除">
+                                <Trash2 size={14} />
+                            </button>
+                        </div>
+                    );
+                })}
+                {trash.length > 1 && (
+                    <button onClick={() => onRestore(trash.map(e => e.id))} className="w-full py-3 text-xs text-stone-500 hover:text-stone-800 tracking-wider">
+                        全部恢复
+                    </button>
+                )}
+            </div>
+        )}
+      </motion.div>
+
+      <AnimatePresence>
+          {confirmIds && (
+              <motion.div
+                  initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}
+                  className="fixed inset-0 z-[100] flex items-center justify-center bg-black/20 backdrop-blur-sm p-6"
+                  onClick={() => setConfirmIds(null)}
+              >
+                  <motion.div
+                      initial={{ scale: 0.9 }} animate={{ scale: 1 }} exit={{ scale: 0.9 }}
+                      onClick={e => e.stopPropagation()}
+                      className="bg-white rounded-2xl p-6 shadow-2xl w-full max-w-xs flex flex-col items-center text-center"
+                  >
+                      <div className="w-12 h-12 bg-red-50 rounded-full flex items-center justify-center mb-3 text-red-500"><AlertTriangle size={24} /></div>
+                      <h3 className="text-sm font-bold text-stone-800 mb-1">彻底删除 {confirmIds.length} 条记录?</h3>
+                      <p className="text-xs text-stone-500 mb-5 leading-relaxed">记录及其照片将被永久移除。</p>
+                      <div className="flex gap-3 w-full">
+                          <button onClick={() => setConfirmIds(null)} className="flex-1 py-2 text-xs font-medium text-stone-500 bg-stone-100 rounded-lg">取消</button>
+                          <button onClick={executeDelete} className="flex-1 py-2 text-xs font-medium text-white bg-red-500 rounded-lg hover:bg-red-600">彻底删除</button>
+                      </div>
+                  </motion.div>
+              </motion.div>
+          )}
+      </AnimatePresence>
+    </div>
+  );
+};
@@ -0,0 +1,250 @@
+import React, { useMemo, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { ArrowLeft, Edit3, MapPin, Merge, Search, Check, X } from 'lucide-react';
+import { FoodEntry, Venue } from '../types';
+import { StoredImage } from '../components/StoredImage';
+import { MiniCapsule } from '../components/MiniCapsule';
+import { LineChart } from '../components/Charts';
+import { PRICE_LEVELS, priceLabel, likelyDuplicates, venueVisits, visitCounts } from '../services/venues';
+import { formatShortDate } from '../utils/date';
+
+interface VenueViewProps {
+  venue: Venue;
+  venues: Venue[];
+  entries: FoodEntry[];
+  onBack: () => void;
+  onEntryClick: (id: string) => void;
+  onUpdate: (venue: Venue) => void;
+  onMerge: (sourceIds: string[]) => void;
+}
+
+const cardClass = "bg-white/80 backdrop-blur-xl border border-white/60 rounded-3xl p-5 shadow-sm mb-4";
+const titleClass = "text-[10px] font-bold text-stone-400 uppercase tracking-widest mb-3";
+const fieldClass = "w-full bg-stone-100 rounded-xl px-3 py-2 text-xs text-stone-700 focus:outline-none focus:ring-2 focus:ring-stone-200";
+
+export const VenueView: React.FC<VenueViewProps> = ({ venue, venues, entries, onBack, onEntryClick, onUpdate, onMerge }) => {
+  const [draft, setDraft] = useState<Venue | null>(null);
+  const [isMerging, setIsMerging] = useState(false);
+  const [mergeQuery, setMergeQuery] = useState('');
+  const [mergeIds, setMergeIds] = useState<string[]>([]);
+
+  const visits = useMemo(() => venueVisits(entries, venue.id), [entries, venue.id]);
+  const rated = visits.filter(e => e.rating > 0);
+  const average = rated.length > 0 ? rated.reduce((sum, e) => sum + e.rating, 0) / rated.length : null;
+  const trend = visits.map(e => ({ label: formatShortDate(e.eatenAt), value: e.rating > 0 ? e.rating : null }));
+
+  // Likely duplicates first, then every other venue, narrowed by the search box
+  const counts = useMemo(() => visitCounts(entries), [entries]);
+  const suggested = useMemo(() => likelyDuplicates(venue, venues), [venue, venues]);
+  const mergeCandidates = useMemo(() => {
+      const needle = mergeQuery.trim().toLowerCase();
+      const others = venues.filter(v => v.id !== venue.id && !suggested.includes(v));
+      return [...suggested, ...others].filter(v => !needle || v.name.toLowerCase().includes(needle) || v.address?.toLowerCase().includes(needle));
+  }, [venues, venue.id, suggested, mergeQuery]);
+
+  const saveDraft = () => {
+      if (!draft) return;
+      if (!draft.name.trim()) {
+          alert("地点名称不能为空");
+          return;
+      }
+      onUpdate({
+          ...draft,
+          name: draft.name.trim(),
+          cuisine: draft.cuisine?.trim() || undefined,
+          notes: draft.notes?.trim() || undefined,
+          updatedAt: new Date().toISOString()
+      });
+      setDraft(null);
+  };
+
+  const toggleMergeId = (id: string) => {
+      setMergeIds(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
+  };
+
+  const closeMerge = () => {
+      setIsMerging(false);
+      setMergeIds([]);
+      setMergeQuery('');
+  };
+
+  const confirmMerge = () => {
+      if (mergeIds.length === 0) return;
+      onMerge(mergeIds);
+      closeMerge();
+  };
+
+  return (
+    <div className="pb-20 pt-10 px-5 max-w-2xl mx-auto min-h-screen">
+      <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }}>
+        {/* Header */}
+        <div className="flex items-center justify-between gap-3 mb-6">
+            <div className="flex items-center gap-3 min-w-0">
+                <button onClick={onBack} className="w-9 h-9 flex-shrink-0 rounded-full bg-white/80 border border-white/60 shadow-sm flex items-center justify-center text-stone-600 hover:bg-white transition-colors">
+                    <ArrowLeft size={18} />
+                </button>
+                <div className="min-w-0">
+                    <h2 className="serif text-2xl text-stone-800 truncate">{venue.name}</h2>
+                    <p className="text-xs text-stone-400 tracking-wider truncate">
+                        {[venue.cuisine, venue.priceLevel && priceLabel(venue.priceLevel), `到访 ${visits.length} 次`].filter(Boolean).join(' · ')}
+                    </p>
+                </div>
+            </div>
+            {!draft && (
+                <button onClick={() => setDraft(venue)} className="w-9 h-9 flex-shrink-0 rounded-full bg-white/80 border border-white/60 shadow-sm flex items-center justify-center text-stone-600 hover:bg-white transition-colors">
+                    <Edit3 size={16} />
+                </button>
+            )}
+        </div>
+
+        {/* Details / editor */}
+        <div className={cardClass}>
+            {draft ? (
+                <div className="space-y-3">
+                    <input value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} placeholder="名称" className={fieldClass} />
+                    <input value={draft.cuisine ?? ''} onChange={e => setDraft({ ...draft, cuisine: e.target.value })} placeholder="菜系，例如：川菜" className={fieldClass} />
+                    <div className="flex items-center gap-2">
+                        <span className="text-[11px] text-stone-500 mr-1">价位</span>
+                        {PRICE_LEVELS.map(level => (
+                            <MiniCapsule
+                                key={level}
+                                label={priceLabel(level)}
+                                active={draft.priceLevel === level}
+                                onClick={() => setDraft({ ...draft, priceLevel: draft.priceLevel === level ? undefined : level })}
+                            />
+                        ))}
+                    </div>
+                    <textarea value={draft.notes ?? ''} onChange={e => setDraft({ ...draft, notes: e.target.value })} placeholder="备注：招牌菜、营业时间..." rows={3} className={`${fieldClass} resize-none`} />
+                    <div className="flex gap-3">
+                        <button onClick={() => setDraft(null)} className="flex-1 py-2 text-xs font-medium text-stone-500 bg-stone-100 rounded-lg">取消</button>
+                        <button onClick={saveDraft} className="flex-1 py-2 text-xs font-medium text-white bg-stone-800 rounded-lg hover:bg-stone-900">保存</button>
+                    </div>
+                </div>
+            ) : (
+                <div className="space-y-3">
+                    {venue.address && (
+                        <div className="flex items-start gap-2 text-xs text-stone-500">
+                            <MapPin size={12} className="mt-0.5 flex-shrink-0" />
+                            <span>{venue.address}</span>
+                        </div>
+                    )}
+                    <div className="grid grid-cols-3 gap-2 text-center">
+                        <div>
+                            <div className="serif text-xl text-stone-800">{visits.length}</div>
+                            <div className="text-[10px] text-stone-400">到访</div>
+                        </div>
+                        <div>
+                            <div className="serif text-xl text-amber-500">{average !== null ? average.toFixed(1) : '—'}</div>
+                            <div className="text-[10px] text-stone-400">平均评分</div>
+                        </div>
+                        <div>
+                            <div className="serif text-xl text-stone-800">{visits.length > 0 ? formatShortDate(visits[visits.length - 1].eatenAt) : '—'}</div>
+                            <div className="text-[10px] text-stone-400">最近一次</div>
+                        </div>
+                    </div>
+                    {venue.notes && <p className="text-xs text-stone-600 leading-relaxed whitespace-pre-line">{venue.notes}</p>}
+                </div>
+            )}
+        </div>
+
+        {/* Rating trend */}
+        {rated.length > 1 && (
+            <div className={cardClass}>
+                <h3 className={titleClass}>评分变化</h3>
+                <LineChart data={trend} />
+            </div>
+        )}
+
+        {/* Visits */}
+        <div className={cardClass}>
+            <h3 className={titleClass}>到访记录</h3>
+            {visits.length === 0 ? (
+                <p className="text-xs text-stone-300">还没有记录</p>
+            ) : (
+                <div className="space-y-2">
+                    {[...visits].reverse().map(entry => (
+                        <button key={entry.id} onClick={() => onEntryClick(entry.id)} className="flex items-center gap-3 w-full p-2 rounded-2xl hover:bg-stone-50 transition-colors text-left">
+                            <StoredImage src={entry.images[entry.coverImageIndex]} variant="thumb" className="w-12 h-12 rounded-xl object-cover bg-stone-100 flex-shrink-0" />
+                            <div className="flex-1 min-w-0">
+                                <div className="text-sm text-stone-700 truncate">{entry.title || '未命名'}</div>
+                                <div className="text-[10px] text-stone-400">{formatShortDate(entry.eatenAt)}</div>
+                            </div>
+                            {entry.rating > 0 && <span className="serif text-sm text-amber-500">{entry.rating.toFixed(1)}</span>}
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+
+        {/* Duplicates */}
+        {venues.length > 1 && (
+            <button onClick={() => setIsMerging(true)} className="flex items-center gap-3 w-full p-3 rounded-2xl bg-stone-50 hover:bg-stone-100 transition-colors text-left">
+                <div className="w-9 h-9 rounded-full bg-white flex items-center justify-center text-stone-500 shadow-sm">
+                    <Merge size={16} />
+                </div>
+                <div className="flex-1 min-w-0">
+                    <div className="text-xs font-medium text-stone-700">合并重复地点</div>
+                    <div className="text-[10px] text-stone-400">{suggested.length > 0 ? `发现 ${suggested.length} 个可能重复的地点` : '把其他地点的到访记录并入这里'}</div>
+                </div>
+            </button>
+        )}
+      </motion.div>
+
+      {/* Merge sheet */}
+      <AnimatePresence>
+          {isMerging && (
+              <motion.div
+                  initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}
+                  className="fixed inset-0 z-[100] flex items-end justify-center bg-black/20 backdrop-blur-sm"
+                  onClick={closeMerge}
+              >
+                  <motion.div
+                      initial={{ y: '100%' }} animate={{ y: 0 }} exit={{ y: '100%' }}
+                      transition={{ type: "spring", stiffness: 300, damping: 30 }}
+                      className="bg-white rounded-t-[2rem] w-full max-w-2xl shadow-2xl max-h-[80vh] flex flex-col"
+                      onClick={e => e.stopPropagation()}
+                  >
+                      <div className="flex items-center justify-between p-5 pb-3">
+                          <h2 className="text-sm font-semibold text-stone-800 tracking-wide">并入「{venue.name}」</h2>
+                          <button onClick={closeMerge} className="w-8 h-8 flex items-center justify-center rounded-full bg-stone-100 text-stone-500 hover:bg-stone-200 transition-colors">
+                              <X size={16} />
+                          </button>
+                      </div>
+                      <div className="px-5 pb-3 relative">
+                          <Search size={12} className="absolute left-8 top-1/2 -translate-y-1/2 -mt-1.5 text-stone-400" />
+                          <input value={mergeQuery} onChange={e => setMergeQuery(e.target.value)} placeholder="搜索地点..." className={`${fieldClass} pl-8`} />
+                      </div>
+                      <div className="flex-1 overflow-y-auto px-5 pb-4 space-y-1">
+                          {mergeCandidates.length === 0 && <p className="text-xs text-stone-300 py-6 text-center">没有匹配的地点</p>}
+                          {mergeCandidates.map(v => {
+                              const selected = mergeIds.includes(v.id);
+                              return (
+                                  <button key={v.id} onClick={() => toggleMergeId(v.id)} className={`flex items-center gap-3 w-full p-3 rounded-2xl text-left transition-colors ${selected ? 'bg-stone-100' : 'hover:bg-stone-50'}`}>
+                                      <div className={`w-5 h-5 rounded-full border flex items-center justify-center flex-shrink-0 ${selected ? 'bg-stone-800 border-stone-800 text-white' : 'border-stone-300'}`}>
+                                          {selected && <Check size={12} />}
+                                      </div>
+                                      <div className="flex-1 min-w-0">
+                                          <div className="text-xs text-stone-700 truncate">{v.name}</div>
+                                          <div className="text-[10px] text-stone-400 truncate">{[v.address, `${counts.get(v.id) ?? 0} 次到访`].filter(Boolean).join(' · ')}</div>
+                                      </div>
+                                      {suggested.includes(v) && <span className="text-[10px] text-amber-500 flex-shrink-0">可能重复</span>}
+                                  </button>
+                              );
+                          })}
+                      </div>
+                      <div className="p-5 pt-3 border-t border-stone-50">
+                          <button
+                              onClick={confirmMerge}
+                              disabled={mergeIds.length === 0}
+                              className="w-full py-3 rounded-full bg-stone-800 text-white text-xs font-medium tracking-widest hover:bg-stone-900 transition-colors disabled:opacity-40"
+                          >
+                              {mergeIds.length > 0 ? `合并 ${mergeIds.length} 个地点` : '选择要合并的地点'}
+                          </button>
+                      </div>
+                  </motion.div>
+              </motion.div>
+          )}
+      </AnimatePresence>
+    </div>
+  );
+};